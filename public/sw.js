@@ -0,0 +1,226 @@
+// Service worker: offline app shell and local habit reminders (no push server)
+//
+// App shell: pages are network-first with the cached copy as fallback, build assets
+// (content-hashed) are cache-first, so the installed app boots offline and loads data from localStorage
+//
+// Reminders: the page hands over upcoming reminders (src/hooks/useReminders.ts). Where the browser
+// supports Notification Triggers they're scheduled right away; otherwise they're shown by the open
+// page's timers or by periodic background sync when installed as a PWA
+
+// Bump to drop everything cached by older versions
+const APP_SHELL_CACHE = 'app-shell-v1'
+const APP_SHELL_URLS = ['/', '/manifest.webmanifest', '/favicon.svg', '/pwa-192x192.svg']
+// Registered with ?cache=off in development (see src/utils/serviceWorker.ts)
+const CACHE_ENABLED = new URL(self.location.href).searchParams.get('cache') !== 'off'
+
+const REMINDER_CACHE = 'habit-reminders-v1'
+const REMINDER_STATE_URL = '/__reminders'
+const SNOOZE_MINUTES = 15
+// Reminders found this late (e.g. the device was asleep) are dropped instead of shown
+const MAX_LATENESS_MS = 60 * 60 * 1000
+
+const supportsTriggers = typeof TimestampTrigger !== 'undefined' && 'showTrigger' in Notification.prototype
+
+// Cache the shell plus the build assets its HTML references, so the first offline boot works
+async function precacheAppShell() {
+  const cache = await caches.open(APP_SHELL_CACHE)
+  await cache.addAll(APP_SHELL_URLS)
+  const html = await (await cache.match('/')).text()
+  const assets = new Set(html.match(/\/_next\/static\/[^"'\s)\\]+/g) || [])
+  await cache.addAll([...assets])
+}
+
+self.addEventListener('install', (event) => {
+  self.skipWaiting()
+  if (CACHE_ENABLED) {
+    event.waitUntil(precacheAppShell().catch((error) => console.error('Failed to precache app shell:', error)))
+  }
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keep = CACHE_ENABLED ? [APP_SHELL_CACHE, REMINDER_CACHE] : [REMINDER_CACHE]
+    const names = await caches.keys()
+    await Promise.all(names.filter(name => !keep.includes(name)).map(name => caches.delete(name)))
+    await self.clients.claim()
+  })())
+})
+
+async function networkFirst(request, fallbackUrl) {
+  const cache = await caches.open(APP_SHELL_CACHE)
+  try {
+    const response = await fetch(request)
+    if (response.ok) await cache.put(fallbackUrl || request, response.clone())
+    return response
+  } catch (error) {
+    const cached = await cache.match(fallbackUrl || request)
+    if (cached) return cached
+    throw error
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(APP_SHELL_CACHE)
+  const cached = await cache.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok) await cache.put(request, response.clone())
+  return response
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (!CACHE_ENABLED || request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  // Google APIs, auth routes and anything else dynamic always go to the network
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return
+
+  if (request.mode === 'navigate') {
+    // Single-page app: every navigation falls back to the cached shell
+    event.respondWith(url.pathname === '/'
+      ? networkFirst(request, '/')
+      : fetch(request).catch(() => caches.match('/', { cacheName: APP_SHELL_CACHE })))
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request))
+  } else if (APP_SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(networkFirst(request))
+  }
+})
+
+// State: { reminders: ScheduledReminder[], shownIds: string[] }
+async function readState() {
+  const cache = await caches.open(REMINDER_CACHE)
+  const response = await cache.match(REMINDER_STATE_URL)
+  return response ? response.json() : { reminders: [], shownIds: [] }
+}
+
+async function writeState(state) {
+  const cache = await caches.open(REMINDER_CACHE)
+  await cache.put(REMINDER_STATE_URL, new Response(JSON.stringify(state), {
+    headers: { 'Content-Type': 'application/json' },
+  }))
+}
+
+function showReminder(reminder, scheduled) {
+  return self.registration.showNotification(reminder.title, {
+    body: reminder.body,
+    tag: reminder.id,
+    icon: '/pwa-192x192.svg',
+    data: reminder,
+    // Reminders for minute goals can't be met from a notification
+    actions: [
+      ...(reminder.canMarkDone === false ? [] : [{ action: 'done', title: 'Mark done' }]),
+      { action: 'snooze', title: `Snooze ${SNOOZE_MINUTES} min` },
+    ],
+    ...(scheduled ? { showTrigger: new TimestampTrigger(reminder.timestamp) } : {}),
+  })
+}
+
+// Show reminders that are due and haven't been shown yet
+async function showDueReminders() {
+  const state = await readState()
+  const now = Date.now()
+  const due = state.reminders.filter(r =>
+    r.timestamp <= now && now - r.timestamp < MAX_LATENESS_MS && !state.shownIds.includes(r.id)
+  )
+  if (due.length === 0) return
+
+  await Promise.all(due.map(r => showReminder(r, false)))
+  await writeState({ ...state, shownIds: [...state.shownIds, ...due.map(r => r.id)] })
+}
+
+async function scheduleReminders(reminders) {
+  const state = await readState()
+  const now = Date.now()
+  const pendingKeys = new Set(reminders.map(r => `${r.habitId}:${r.date}`))
+
+  // Keep snoozes for habits that still aren't done
+  const snoozed = state.reminders.filter(r =>
+    r.snoozed && r.timestamp > now - MAX_LATENESS_MS && pendingKeys.has(`${r.habitId}:${r.date}`)
+  )
+  const next = [...reminders, ...snoozed]
+  const ids = new Set(next.map(r => r.id))
+  // Reminders handed to a trigger count as shown - the browser fires them
+  const triggered = supportsTriggers ? next.filter(r => r.timestamp > now) : []
+  await writeState({
+    reminders: next,
+    shownIds: [...state.shownIds.filter(id => ids.has(id)), ...triggered.map(r => r.id)],
+  })
+
+  if (supportsTriggers) {
+    // Replace every scheduled notification that hasn't fired yet
+    const scheduled = await self.registration.getNotifications({ includeTriggered: true })
+    scheduled.filter(n => n.data && n.data.timestamp > now).forEach(n => n.close())
+    await Promise.all(triggered.map(r => showReminder(r, true)))
+  }
+
+  await showDueReminders()
+}
+
+async function snoozeReminder(reminder) {
+  const snoozed = {
+    ...reminder,
+    id: `${reminder.id}:snooze:${Date.now()}`,
+    timestamp: Date.now() + SNOOZE_MINUTES * 60 * 1000,
+    snoozed: true,
+  }
+  const state = await readState()
+  await writeState({
+    reminders: [...state.reminders, snoozed],
+    shownIds: supportsTriggers ? [...state.shownIds, snoozed.id] : state.shownIds,
+  })
+
+  if (supportsTriggers) {
+    await showReminder(snoozed, true)
+  } else {
+    // Let an open page time it
+    const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+    clients.forEach(client => client.postMessage({ type: 'reminder-snoozed', timestamp: snoozed.timestamp }))
+  }
+}
+
+// Completions live in the page's storage, so "Mark done" is handed to the app (opening it if needed)
+async function markDone(reminder) {
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  if (clients.length > 0) {
+    clients.forEach(client => client.postMessage({ type: 'reminder-done', habitId: reminder.habitId, date: reminder.date }))
+    return
+  }
+  const params = new URLSearchParams({ reminderDone: reminder.habitId, date: reminder.date })
+  await self.clients.openWindow(`/?${params}`)
+}
+
+async function focusApp() {
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  if (clients.length > 0) return clients[0].focus()
+  return self.clients.openWindow('/')
+}
+
+self.addEventListener('message', (event) => {
+  const message = event.data || {}
+  if (message.type === 'schedule-reminders') {
+    event.waitUntil(scheduleReminders(message.reminders || []))
+  } else if (message.type === 'show-due-reminders') {
+    event.waitUntil(showDueReminders())
+  }
+})
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === 'habit-reminders') {
+    event.waitUntil(showDueReminders())
+  }
+})
+
+self.addEventListener('notificationclick', (event) => {
+  const reminder = event.notification.data
+  event.notification.close()
+
+  if (event.action === 'snooze' && reminder) {
+    event.waitUntil(snoozeReminder(reminder))
+  } else if (event.action === 'done' && reminder && reminder.canMarkDone !== false) {
+    event.waitUntil(markDone(reminder))
+  } else {
+    event.waitUntil(focusApp())
+  }
+})
@@ -1,11 +1,18 @@
 import { useState, useCallback, useEffect, useMemo } from 'react'
-import { format, addDays, subDays, addWeeks, subWeeks, addMonths, subMonths, startOfWeek, endOfWeek, eachDayOfInterval } from 'date-fns'
+import { format, addDays, subDays, addWeeks, subWeeks, addMonths, subMonths, addYears, subYears, startOfWeek, endOfWeek, startOfYear, endOfYear, eachDayOfInterval } from 'date-fns'
 import { Calendar, ViewMode } from './components/Calendar'
 import { DayView } from './components/DayView'
 import { DayModal } from './components/DayModal'
 import { Legend } from './components/Legend'
 import { EditPanel } from './components/EditPanel'
 import { CloudBackupDialog } from './components/CloudBackupDialog'
+import { CsvExportDialog } from './components/CsvExportDialog'
+import { CalendarDialog } from './components/CalendarDialog'
+import { HabitImportDialog } from './components/HabitImportDialog'
+import { AnalyticsDialog } from './components/AnalyticsDialog'
+import { CommandPalette } from './components/CommandPalette'
+import { ShortcutsDialog } from './components/ShortcutsDialog'
+import { SettingsDialog } from './components/SettingsDialog'
 import { ResponsiveDialog } from './components/ResponsiveDialog'
 import { WelcomeScreen } from './components/WelcomeScreen'
 import { TermsOfService } from './components/TermsOfService'
@@ -14,7 +21,17 @@ import { useHabits } from './hooks/useHabits'
 import { useFeedback } from './hooks/useFeedback'
 import { useGoogleAuth } from './hooks/useGoogleAuth'
 import { useCloudSync } from './hooks/useCloudSync'
+import { useReminders } from './hooks/useReminders'
+import { useTimerCycles } from './hooks/useTimerCycles'
+import { useKeyboardShortcuts, isTextInput } from './hooks/useKeyboardShortcuts'
+import { useSettings } from './hooks/useSettings'
 import { Toaster } from './components/ui/sonner'
+import { toast } from 'sonner'
+import { createBackup, getBackupFilename } from './utils/backup'
+import { downloadFile } from './utils/download'
+import { registerServiceWorker } from './utils/serviceWorker'
+import { getDayMonthString, getLogicalDate, getLogicalDateString, getMonthYearString } from './utils/dates'
+import type { SearchResult } from './utils/search'
 import type { HabitData } from './types'
 
 // Check if user has accepted terms (SSR-safe)
@@ -48,6 +65,9 @@ function App() {
     refreshToken,
   } = useGoogleAuth()
 
+  // Week start, day rollover and date language
+  const { settings, weekStartsOn, dayStartHour, locale, updateSettings } = useSettings()
+
   // Cloud sync callback
   const handleCloudDataChange = useCallback((_data: HabitData) => {
     // This will be called when local data changes
@@ -56,22 +76,38 @@ function App() {
 
   const {
     habits,
+    activeHabits,
+    archivedHabits,
     completions,
     groups,
     timedEntries,
     activeTimers,
+    dayNotes,
     isLoaded,
     addHabit,
     updateHabit,
+    archiveHabit,
+    restoreHabit,
     deleteHabit,
     addGroup,
     updateGroup,
     deleteGroup,
     toggleGroupVisibility,
     toggleBinary,
+    setCompletion,
+    adjustCounter,
+    getCompletionNote,
+    hasCompletion,
+    setCompletionNote,
+    getDayNote,
+    setDayNote,
     getCompletionValue,
+    getGoalProgress,
+    isGoalMet,
     getStreak,
     loadAllData,
+    importData,
+    importHistory,
     getAllData,
     deleteAllData,
     addTimedEntry,
@@ -79,19 +115,26 @@ function App() {
     deleteTimedEntry,
     startTimer,
     stopTimer,
+    completeTimerCycle,
+    undo,
+    redo,
   } = useHabits({
     userId: user?.email, // Multi-user support: each user gets their own data
     onDataChange: handleCloudDataChange,
+    dayStartHour,
+    weekStartsOn,
   })
 
   // Cloud Sync
   const {
     syncStatus,
+    hasPendingSave,
     syncNow,
     saveToCloud,
   } = useCloudSync({
     accessToken: getAccessToken(),
     isSignedIn,
+    userId: user?.email,
     localData: getAllData(),
     onDataLoaded: loadAllData,
     onTokenRefresh: refreshToken,
@@ -102,15 +145,109 @@ function App() {
     if (isSignedIn && isLoaded) {
       saveToCloud(getAllData())
     }
-  }, [habits, completions, groups, timedEntries, activeTimers, isSignedIn, isLoaded, saveToCloud, getAllData])
+  }, [habits, completions, groups, timedEntries, activeTimers, dayNotes, isSignedIn, isLoaded, saveToCloud, getAllData])
+
+  // Offline app shell (also used for reminders)
+  useEffect(() => {
+    registerServiceWorker()
+  }, [])
+
+  const { celebrate, chime } = useFeedback()
+
+  // Countdown and Pomodoro timers: log finished periods and cue each period end
+  useTimerCycles({
+    activeTimers,
+    habits,
+    isLoaded,
+    onCycleComplete: completeTimerCycle,
+    chime,
+  })
+
+  // Undo / redo (toasts share one id so only the latest is shown)
+  const handleUndo = useCallback(() => {
+    const label = undo()
+    if (label) toast(`Undid: ${label}`, { id: 'history', action: { label: 'Redo', onClick: () => redo() } })
+  }, [undo, redo])
+
+  const handleRedo = useCallback(() => {
+    const label = redo()
+    if (label) toast(`Redid: ${label}`, { id: 'history' })
+  }, [redo])
+
+  const showUndoToast = useCallback((message: string) => {
+    toast(message, { id: 'history', action: { label: 'Undo', onClick: handleUndo } })
+  }, [handleUndo])
+
+  const handleDeleteHabit = useCallback((id: string) => {
+    deleteHabit(id)
+    showUndoToast('Habit deleted')
+  }, [deleteHabit, showUndoToast])
+
+  const handleDeleteGroup = useCallback((id: string) => {
+    deleteGroup(id)
+    showUndoToast('Group deleted')
+  }, [deleteGroup, showUndoToast])
+
+  const handleDeleteTimedEntry = useCallback((id: string) => {
+    deleteTimedEntry(id)
+    showUndoToast('Entry deleted')
+  }, [deleteTimedEntry, showUndoToast])
+
+  const handleDeleteAllData = useCallback(() => {
+    deleteAllData()
+    showUndoToast('All data deleted')
+  }, [deleteAllData, showUndoToast])
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) to redo - text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextInput(e.target)) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        handleUndo()
+      } else if ((key === 'z' && e.shiftKey) || (key === 'y' && !e.metaKey)) {
+        e.preventDefault()
+        handleRedo()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [handleUndo, handleRedo])
+
+  // Reminder "Mark done" only ever checks a habit off, never un-checks it
+  // Counters go up to their daily target; minute goals have no "Mark done" (only timed entries count)
+  const handleReminderDone = useCallback((habitId: string, date: string) => {
+    const habit = habits.find(h => h.id === habitId)
+    if (!habit || habit.goal?.unit === 'minutes' || isGoalMet(habitId, date)) return
 
-  const { celebrate } = useFeedback()
+    const target = habit.type === 'counter' && habit.goal?.period === 'day' ? Math.max(1, habit.goal.target) : 1
+    if (getCompletionValue(habitId, date) < target) {
+      setCompletion(habitId, date, target)
+    }
+  }, [habits, isGoalMet, getCompletionValue, setCompletion])
+
+  useReminders({
+    habits: activeHabits,
+    dayStartHour,
+    isLoaded,
+    isDone: isGoalMet,
+    onMarkDone: handleReminderDone,
+  })
 
   const [modalDateString, setModalDateString] = useState<string | null>(null)
   const [showEditPanel, setShowEditPanel] = useState(false)
   const [editPanelInitialMode, setEditPanelInitialMode] = useState<'list' | 'add-habit'>('list')
   const [showCloudDialog, setShowCloudDialog] = useState(false)
+  const [showCsvExport, setShowCsvExport] = useState(false)
+  const [showHabitImport, setShowHabitImport] = useState(false)
+  const [showCalendarDialog, setShowCalendarDialog] = useState(false)
   const [showAnalyticsDialog, setShowAnalyticsDialog] = useState(false)
+  const [showCommandPalette, setShowCommandPalette] = useState(false)
+  const [showShortcuts, setShowShortcuts] = useState(false)
+  const [showSettings, setShowSettings] = useState(false)
+  const [yearHabitId, setYearHabitId] = useState<string | null>(null) // Year view: single-habit contribution graph
   const [showTerms, setShowTerms] = useState(false)
   const [showPrivacy, setShowPrivacy] = useState(false)
   const [showAbout, setShowAbout] = useState(false)
@@ -122,8 +259,8 @@ function App() {
     if (saved === 'week') return 'month'
     return (saved as ViewMode) || 'month'
   })
-  const [currentDate, setCurrentDate] = useState(() => new Date())
-  const [displayMonth, setDisplayMonth] = useState(() => new Date()) // For header display (updates on scroll)
+  const [currentDate, setCurrentDate] = useState(() => getLogicalDate(new Date(), dayStartHour))
+  const [displayMonth, setDisplayMonth] = useState(() => getLogicalDate(new Date(), dayStartHour)) // For header display (updates on scroll)
   const [visibleDates, setVisibleDates] = useState<string[]>([]) // Dates currently visible in calendar scroll
   const [navDirection, setNavDirection] = useState<'left' | 'right' | 'none'>('none')
   const [navKey, setNavKey] = useState(0) // Used to trigger animation on date change
@@ -144,6 +281,9 @@ function App() {
     } else if (viewMode === 'month') {
       setCurrentDate(d => subMonths(d, 1))
       setDisplayMonth(d => subMonths(d, 1))
+    } else if (viewMode === 'year') {
+      setCurrentDate(d => subYears(d, 1))
+      setDisplayMonth(d => subYears(d, 1))
     } else {
       setCurrentDate(d => subWeeks(d, 1))
       setDisplayMonth(d => subWeeks(d, 1))
@@ -159,6 +299,9 @@ function App() {
     } else if (viewMode === 'month') {
       setCurrentDate(d => addMonths(d, 1))
       setDisplayMonth(d => addMonths(d, 1))
+    } else if (viewMode === 'year') {
+      setCurrentDate(d => addYears(d, 1))
+      setDisplayMonth(d => addYears(d, 1))
     } else {
       setCurrentDate(d => addWeeks(d, 1))
       setDisplayMonth(d => addWeeks(d, 1))
@@ -168,34 +311,37 @@ function App() {
   const goToToday = useCallback(() => {
     setNavDirection('none')
     setNavKey(k => k + 1)
-    setCurrentDate(new Date())
-    setDisplayMonth(new Date())
-  }, [])
+    setCurrentDate(getLogicalDate(new Date(), dayStartHour))
+    setDisplayMonth(getLogicalDate(new Date(), dayStartHour))
+  }, [dayStartHour])
 
   // Format header label based on view mode
   const headerLabel = useMemo(() => {
     if (viewMode === 'day') {
       // Always show day name, even for today (consistent styling)
-      return format(currentDate, 'EEE')
+      return format(currentDate, 'EEE', { locale })
+    }
+    if (viewMode === 'year') {
+      return format(currentDate, 'yyyy')
     }
     // For month view, use displayMonth (which updates on scroll)
-    return format(displayMonth, 'MMMM yyyy')
-  }, [viewMode, currentDate, displayMonth])
+    return getMonthYearString(displayMonth, locale)
+  }, [viewMode, currentDate, displayMonth, locale])
 
   const headerSubLabel = useMemo(() => {
     if (viewMode === 'day') {
-      return format(currentDate, 'MMM d')
+      return getDayMonthString(currentDate, locale)
     }
     return null
-  }, [viewMode, currentDate])
+  }, [viewMode, currentDate, locale])
 
   // Initialize visibility when habits load - all visible by default
   useEffect(() => {
-    if (isLoaded && habits.length > 0) {
+    if (isLoaded && activeHabits.length > 0) {
       setVisibleHabitIds((prev) => {
         const newSet = new Set(prev)
         // Add any new habits to visible set
-        habits.forEach((h) => {
+        activeHabits.forEach((h) => {
           if (!newSet.has(h.id) && prev.size === 0) {
             newSet.add(h.id)
           } else if (!prev.has(h.id) && prev.size > 0) {
@@ -205,14 +351,14 @@ function App() {
         })
         // Remove deleted habits
         newSet.forEach((id) => {
-          if (!habits.find((h) => h.id === id)) {
+          if (!activeHabits.find((h) => h.id === id)) {
             newSet.delete(id)
           }
         })
         return newSet
       })
     }
-  }, [isLoaded, habits])
+  }, [isLoaded, activeHabits])
 
   const handleToggleVisibility = useCallback((habitId: string) => {
     setVisibleHabitIds((prev) => {
@@ -232,7 +378,7 @@ function App() {
     // Also update local visibleHabitIds
     const group = groups.find(g => g.id === groupId)
     if (group) {
-      const habitsInGroup = habits.filter(h => h.groupId === groupId)
+      const habitsInGroup = activeHabits.filter(h => h.groupId === groupId)
       setVisibleHabitIds((prev) => {
         const newSet = new Set(prev)
         if (group.visible) {
@@ -245,7 +391,7 @@ function App() {
         return newSet
       })
     }
-  }, [groups, habits, toggleGroupVisibility])
+  }, [groups, activeHabits, toggleGroupVisibility])
 
   const handleDayClick = useCallback((dateString: string) => {
     // Switch to Day View and navigate to the clicked date
@@ -254,13 +400,54 @@ function App() {
     setViewMode('day')
   }, [])
 
+  // Jump to a search result's date in its view
+  const handleSearchSelect = useCallback((result: SearchResult) => {
+    const [year, month, day] = result.date.split('-').map(Number)
+    const date = new Date(year, month - 1, day)
+    setShowCommandPalette(false)
+    setNavDirection('none')
+    setNavKey(k => k + 1)
+    setViewMode(result.viewMode)
+    setCurrentDate(date)
+    setDisplayMonth(date)
+    const { habitId } = result
+    if (habitId) {
+      setVisibleHabitIds((prev) => (prev.has(habitId) ? prev : new Set([...prev, habitId])))
+    }
+  }, [])
+
+  // Ctrl/Cmd+K opens search
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault()
+        setShowCommandPalette(true)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  // Year view: open a month
+  const handleMonthClick = useCallback((date: Date) => {
+    setCurrentDate(date)
+    setDisplayMonth(date)
+    setViewMode('month')
+  }, [])
+
   const handleCloseModal = useCallback(() => {
     setModalDateString(null)
   }, [])
 
+  // Download everything as a versioned JSON backup
+  const handleExportData = useCallback(() => {
+    const backup = createBackup(getAllData())
+    downloadFile(getBackupFilename(), JSON.stringify(backup, null, 2), 'application/json')
+  }, [getAllData])
+
   // Filter habits for calendar display (respecting both individual and group visibility)
   const visibleHabits = useMemo(() => {
-    return habits.filter((h) => {
+    return activeHabits.filter((h) => {
       // Check individual visibility
       if (!visibleHabitIds.has(h.id)) return false
       // Check group visibility
@@ -270,7 +457,31 @@ function App() {
       }
       return true
     })
-  }, [habits, visibleHabitIds, groups])
+  }, [activeHabits, visibleHabitIds, groups])
+
+  // Number keys check off habits in the order the chip lists show them (by group)
+  const handleShortcutToggleHabit = useCallback((index: number) => {
+    const shown = modalDateString ? activeHabits : visibleHabits
+    const habit = groups.flatMap(g => shown.filter(h => h.groupId === g.id))[index]
+    if (!habit) return
+
+    // The focused day: the open day log, the day being viewed, or today
+    const date = modalDateString ?? (viewMode === 'day' ? format(currentDate, 'yyyy-MM-dd') : getLogicalDateString(new Date(), dayStartHour))
+    if (habit.type === 'counter') {
+      if (adjustCounter(habit.id, date, 1) === 1) celebrate()
+    } else if (toggleBinary(habit.id, date)) {
+      celebrate()
+    }
+  }, [modalDateString, activeHabits, visibleHabits, groups, viewMode, currentDate, dayStartHour, adjustCounter, toggleBinary, celebrate])
+
+  useKeyboardShortcuts({
+    onPrev: goToPrev,
+    onNext: goToNext,
+    onToday: goToToday,
+    onViewMode: setViewMode,
+    onToggleHabit: handleShortcutToggleHabit,
+    onShowHelp: () => setShowShortcuts(true),
+  })
 
   // Compute which habits have completions in the current view
   const habitsWithDataInView = useMemo(() => {
@@ -293,8 +504,8 @@ function App() {
       }
     } else if (viewMode === 'workweek') {
       // Workweek view: check week dates
-      const weekStart = startOfWeek(currentDate, { weekStartsOn: 0 })
-      const weekEnd = endOfWeek(currentDate, { weekStartsOn: 0 })
+      const weekStart = startOfWeek(currentDate, { weekStartsOn })
+      const weekEnd = endOfWeek(currentDate, { weekStartsOn })
       const dates = eachDayOfInterval({ start: weekStart, end: weekEnd })
       for (const date of dates) {
         const dateString = format(date, 'yyyy-MM-dd')
@@ -306,6 +517,14 @@ function App() {
           }
         }
       }
+    } else if (viewMode === 'year') {
+      // Year view: check every day of the year
+      const dates = eachDayOfInterval({ start: startOfYear(currentDate), end: endOfYear(currentDate) })
+      for (const habit of visibleHabits) {
+        if (dates.some(date => getCompletionValue(habit.id, format(date, 'yyyy-MM-dd')) > 0)) {
+          habitIdsWithData.add(habit.id)
+        }
+      }
     } else {
       // Month view: use visible dates from scroll position
       for (const dateString of visibleDates) {
@@ -388,10 +607,21 @@ function App() {
           <div className="flex items-center justify-between mb-2">
             <h1 className="text-base font-semibold text-zinc-100">Minimal Habits</h1>
             <div className="flex items-center">
+              {/* Search button */}
+              <button
+                onClick={() => setShowCommandPalette(true)}
+                className="flex h-8 w-8 items-center justify-center rounded-lg border border-zinc-700 text-zinc-400 transition-colors hover:text-zinc-100 hover:bg-zinc-800"
+                title="Search (Ctrl+K)"
+              >
+                <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
+                </svg>
+              </button>
+
               {/* Analytics button */}
               <button
                 onClick={() => setShowAnalyticsDialog(true)}
-                className="flex h-8 w-8 items-center justify-center rounded-lg border border-zinc-700 text-zinc-400 transition-colors hover:text-zinc-100 hover:bg-zinc-800"
+                className="flex h-8 w-8 items-center justify-center rounded-lg border border-zinc-700 text-zinc-400 transition-colors hover:text-zinc-100 hover:bg-zinc-800 ml-1"
                 title="Analytics"
               >
                 <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -410,12 +640,24 @@ function App() {
                 </svg>
               </button>
 
-              {/* Profile button (opens account menu) */}
+              {/* Profile button (opens account menu) with sync status dot */}
               <button
                 onClick={() => setShowCloudDialog(true)}
-                className="flex items-center gap-1 h-8 px-2 rounded-lg border border-zinc-700 transition-colors hover:bg-zinc-800 ml-1"
-                title={isSignedIn ? user?.name || 'Profile' : 'Sign in'}
+                className="relative flex items-center gap-1 h-8 px-2 rounded-lg border border-zinc-700 transition-colors hover:bg-zinc-800 ml-1"
+                title={!isSignedIn ? 'Sign in'
+                  : syncStatus === 'offline' ? `Offline${hasPendingSave ? ' · changes will sync when you reconnect' : ''}`
+                  : syncStatus === 'error' ? `Sync error${hasPendingSave ? ' · retrying' : ''}`
+                  : user?.name || 'Profile'}
               >
+                {isSignedIn && (syncStatus === 'offline' || syncStatus === 'error' || syncStatus === 'syncing') && (
+                  <span
+                    className={`absolute -top-1 -right-1 h-2.5 w-2.5 rounded-full border-2 border-zinc-950 ${
+                      syncStatus === 'offline' ? 'bg-yellow-500' :
+                      syncStatus === 'error' ? 'bg-red-500' :
+                      'bg-zinc-400 animate-pulse'
+                    }`}
+                  />
+                )}
                 {isSignedIn && user?.picture ? (
                   <img src={user.picture} alt="" className="h-5 w-5 rounded-full" referrerPolicy="no-referrer" />
                 ) : (
@@ -475,7 +717,7 @@ function App() {
 
             {/* Right: View mode tabs */}
             <div className="flex items-center bg-zinc-900 rounded-lg p-0.5 border border-zinc-700">
-              {(['day', 'month'] as ViewMode[]).map((mode) => (
+              {(['day', 'month', 'year'] as ViewMode[]).map((mode) => (
                 <button
                   key={mode}
                   onClick={() => setViewMode(mode)}
@@ -485,7 +727,7 @@ function App() {
                       : 'text-zinc-500 hover:text-zinc-300'
                   }`}
                 >
-                  {mode === 'day' ? 'Day' : 'Month'}
+                  {mode === 'day' ? 'Day' : mode === 'month' ? 'Month' : 'Year'}
                 </button>
               ))}
             </div>
@@ -505,10 +747,11 @@ function App() {
           {viewMode === 'day' ? (
             <DayView
               date={currentDate}
-              habits={habits}
+              dayStartHour={dayStartHour}
+              habits={activeHabits}
               groups={groups}
               timedEntries={timedEntries}
-              completions={getAllData().completions}
+              completions={completions}
               activeTimers={activeTimers}
               habitDisplayColors={habitDisplayColors}
               visibleHabitIds={visibleHabitIds}
@@ -516,10 +759,14 @@ function App() {
               onToggleGroupVisibility={handleToggleGroupVisibility}
               onAddTimedEntry={addTimedEntry}
               onUpdateTimedEntry={updateTimedEntry}
-              onDeleteTimedEntry={deleteTimedEntry}
+              onDeleteTimedEntry={handleDeleteTimedEntry}
+              onRemoveTimedEntry={deleteTimedEntry}
               onStartTimer={startTimer}
               onStopTimer={stopTimer}
+              onCompleteTimerCycle={completeTimerCycle}
               onToggleCompletion={toggleBinary}
+              onOpenDayLog={() => setModalDateString(format(currentDate, 'yyyy-MM-dd'))}
+              onOpenCalendar={() => setShowCalendarDialog(true)}
               onCelebrate={celebrate}
               onOpenEditPanel={(mode) => {
                 setEditPanelInitialMode(mode || 'list')
@@ -536,10 +783,17 @@ function App() {
               habits={visibleHabits}
               habitDisplayColors={habitDisplayColors}
               getCompletionValue={getCompletionValue}
+              getGoalProgress={getGoalProgress}
               onDayClick={handleDayClick}
               onVisibleDatesChange={setVisibleDates}
               viewMode={viewMode}
               currentDate={currentDate}
+              weekStartsOn={weekStartsOn}
+              dayStartHour={dayStartHour}
+              locale={locale}
+              yearHabitId={yearHabitId}
+              onYearHabitChange={setYearHabitId}
+              onMonthClick={handleMonthClick}
             />
           )}
           </div>
@@ -568,7 +822,7 @@ function App() {
 
               {/* Legend */}
               <Legend
-                habits={habits}
+                habits={activeHabits}
                 groups={groups}
                 visibleHabitIds={visibleHabitIds}
                 habitDisplayColors={habitDisplayColors}
@@ -589,7 +843,7 @@ function App() {
           setShowEditPanel(false)
           setEditPanelInitialMode('list')
         }}
-        habits={habits}
+        habits={activeHabits}
         groups={groups}
         getStreak={getStreak}
         onAddHabit={(options) => {
@@ -597,10 +851,13 @@ function App() {
           setVisibleHabitIds((prev) => new Set([...prev, newHabit.id]))
           return newHabit
         }}
+        archivedHabits={archivedHabits}
         onUpdateHabit={updateHabit}
-        onDeleteHabit={deleteHabit}
+        onArchiveHabit={archiveHabit}
+        onRestoreHabit={restoreHabit}
+        onDeleteHabit={handleDeleteHabit}
         onAddGroup={addGroup}
-        onDeleteGroup={deleteGroup}
+        onDeleteGroup={handleDeleteGroup}
         onUpdateGroup={(groupId, name) => updateGroup(groupId, { name })}
         initialMode={editPanelInitialMode}
       />
@@ -608,10 +865,17 @@ function App() {
       {modalDateString && (
         <DayModal
           dateString={modalDateString}
-          habits={habits}
+          dayStartHour={dayStartHour}
+          habits={activeHabits}
           groups={groups}
           getCompletionValue={getCompletionValue}
           onToggleBinary={toggleBinary}
+          onAdjustCounter={adjustCounter}
+          hasCompletion={hasCompletion}
+          getCompletionNote={getCompletionNote}
+          onSetCompletionNote={setCompletionNote}
+          getDayNote={getDayNote}
+          onSetDayNote={setDayNote}
           onClose={handleCloseModal}
           onCelebrate={celebrate}
         />
@@ -631,27 +895,84 @@ function App() {
         onRemoveAccount={removeAccount}
         onSignOut={signOut}
         onSyncNow={syncNow}
-        onDeleteAllData={deleteAllData}
+        onExportData={handleExportData}
+        onExportCsv={() => setShowCsvExport(true)}
+        onImportHistory={() => setShowHabitImport(true)}
+        onOpenSettings={() => setShowSettings(true)}
+        onImportData={importData}
+        onDeleteAllData={handleDeleteAllData}
       />
 
-      {/* Analytics coming soon dialog */}
-      <ResponsiveDialog
+      {/* CSV export dialog */}
+      {showCsvExport && (
+        <CsvExportDialog
+          habits={habits}
+          groups={groups}
+          getAllData={getAllData}
+          onClose={() => setShowCsvExport(false)}
+        />
+      )}
+
+      {/* Import from other trackers */}
+      {showHabitImport && (
+        <HabitImportDialog
+          habits={habits}
+          onImport={importHistory}
+          onClose={() => setShowHabitImport(false)}
+        />
+      )}
+
+      {/* Calendar (.ics) dialog */}
+      {showCalendarDialog && (
+        <CalendarDialog
+          date={currentDate}
+          dayStartHour={dayStartHour}
+          habits={habits}
+          timedEntries={timedEntries}
+          onAddTimedEntry={addTimedEntry}
+          onClose={() => setShowCalendarDialog(false)}
+        />
+      )}
+
+      {/* Keyboard shortcuts ("?") */}
+      {showShortcuts && <ShortcutsDialog onClose={() => setShowShortcuts(false)} />}
+
+      {/* Week start, day rollover and date language */}
+      {showSettings && (
+        <SettingsDialog
+          settings={settings}
+          onUpdateSettings={updateSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {/* Search (command palette) */}
+      {showCommandPalette && (
+        <CommandPalette
+          habits={habits}
+          groups={groups}
+          completions={completions}
+          timedEntries={timedEntries}
+          dayNotes={dayNotes}
+          onSelect={handleSearchSelect}
+          onClose={() => setShowCommandPalette(false)}
+        />
+      )}
+
+      {/* Analytics dialog */}
+      <AnalyticsDialog
         isOpen={showAnalyticsDialog}
         onClose={() => setShowAnalyticsDialog(false)}
-        title="Analytics"
-      >
-        <div className="px-4 py-8 text-center">
-          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-zinc-800">
-            <svg className="h-6 w-6 text-zinc-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-              <path strokeLinecap="round" strokeLinejoin="round" d="M3 13.125C3 12.504 3.504 12 4.125 12h2.25c.621 0 1.125.504 1.125 1.125v6.75C7.5 20.496 6.996 21 6.375 21h-2.25A1.125 1.125 0 013 19.875v-6.75zM9.75 8.625c0-.621.504-1.125 1.125-1.125h2.25c.621 0 1.125.504 1.125 1.125v11.25c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 01-1.125-1.125V8.625zM16.5 4.125c0-.621.504-1.125 1.125-1.125h2.25C20.496 3 21 3.504 21 4.125v15.75c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 01-1.125-1.125V4.125z" />
-            </svg>
-          </div>
-          <p className="text-sm text-zinc-300 mb-2">Coming Soon</p>
-          <p className="text-xs text-zinc-500">
-            Track your habit streaks, completion rates, and trends over time.
-          </p>
-        </div>
-      </ResponsiveDialog>
+        habits={habits}
+        completions={completions}
+        timedEntries={timedEntries}
+        habitDisplayColors={habitDisplayColors}
+        weekStartsOn={weekStartsOn}
+        locale={locale}
+        isGoalMet={isGoalMet}
+        getStreak={getStreak}
+        onDayClick={handleDayClick}
+      />
 
       {/* About dialog */}
       <ResponsiveDialog
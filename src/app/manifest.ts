@@ -0,0 +1,24 @@
+import type { MetadataRoute } from 'next'
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    id: '/',
+    name: 'Minimal Habits',
+    short_name: 'Habits',
+    description: 'Track your daily habits with simplicity',
+    start_url: '/',
+    scope: '/',
+    display: 'standalone',
+    orientation: 'portrait',
+    background_color: '#09090b',
+    theme_color: '#0f172a',
+    icons: [
+      {
+        src: '/pwa-192x192.svg',
+        sizes: 'any',
+        type: 'image/svg+xml',
+        purpose: 'any',
+      },
+    ],
+  }
+}
@@ -0,0 +1,207 @@
+import { useState, useMemo } from 'react'
+import type { Locale } from 'date-fns'
+import { ResponsiveDialog } from './ResponsiveDialog'
+import { YearHeatmap } from './YearHeatmap'
+import {
+  ANALYTICS_RANGES,
+  getFirstTrackedDate,
+  getHabitStats,
+  getWeekdayDistribution,
+  getYearHeatmap,
+  type AnalyticsRange,
+} from '../utils/analytics'
+import { getWeekdayLabels, type WeekStart } from '../utils/dates'
+import type { Habit, HabitCompletion, TimedEntry } from '../types'
+
+interface AnalyticsDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  habits: Habit[]
+  completions: HabitCompletion[]
+  timedEntries: TimedEntry[]
+  habitDisplayColors: Map<string, string>
+  weekStartsOn: WeekStart
+  locale: Locale
+  isGoalMet: (habitId: string, date: string) => boolean
+  getStreak: (habitId: string) => number
+  onDayClick?: (dateString: string) => void
+}
+
+const DEFAULT_COLOR = '#50e991'
+
+function formatRange(days: AnalyticsRange): string {
+  return days === 365 ? '1y' : `${days}d`
+}
+
+export function AnalyticsDialog({
+  isOpen,
+  onClose,
+  habits,
+  completions,
+  timedEntries,
+  habitDisplayColors,
+  weekStartsOn,
+  locale,
+  isGoalMet,
+  getStreak,
+  onDayClick,
+}: AnalyticsDialogProps) {
+  const [range, setRange] = useState<AnalyticsRange>(30)
+  // null = all habits
+  const [selectedHabitId, setSelectedHabitId] = useState<string | null>(null)
+
+  // Days only count once the habit's goal is met
+  const isComplete = isGoalMet
+
+  const sortedHabits = useMemo(() => {
+    return [...habits].sort((a, b) => a.name.localeCompare(b.name))
+  }, [habits])
+
+  // Per-habit stats for the selected range (only computed while open)
+  const habitStats = useMemo(() => {
+    if (!isOpen) return []
+    return sortedHabits.map(habit => {
+      const firstTracked = getFirstTrackedDate(habit, completions, timedEntries)
+      return {
+        habit,
+        stats: getHabitStats(habit, firstTracked, range, isComplete, weekStartsOn),
+        currentStreak: getStreak(habit.id),
+      }
+    })
+  }, [isOpen, sortedHabits, completions, timedEntries, range, isComplete, weekStartsOn, getStreak])
+
+  const selectedHabitIds = useMemo(() => {
+    return selectedHabitId ? [selectedHabitId] : habits.map(h => h.id)
+  }, [selectedHabitId, habits])
+
+  const weekdayCounts = useMemo(() => {
+    if (!isOpen) return [0, 0, 0, 0, 0, 0, 0]
+    return getWeekdayDistribution(selectedHabitIds, range, isComplete, weekStartsOn)
+  }, [isOpen, selectedHabitIds, range, isComplete, weekStartsOn])
+
+  const weekdayLabels = useMemo(() => getWeekdayLabels(weekStartsOn, locale), [weekStartsOn, locale])
+
+  const heatmapWeeks = useMemo(() => {
+    if (!isOpen) return []
+    return getYearHeatmap(selectedHabitIds, isComplete, weekStartsOn)
+  }, [isOpen, selectedHabitIds, isComplete, weekStartsOn])
+
+  const maxWeekdayCount = Math.max(1, ...weekdayCounts)
+  const accentColor = selectedHabitId
+    ? habitDisplayColors.get(selectedHabitId) || DEFAULT_COLOR
+    : DEFAULT_COLOR
+
+  return (
+    <ResponsiveDialog isOpen={isOpen} onClose={onClose} title="Analytics">
+      <div className="px-4 py-4 space-y-6">
+        {habits.length === 0 ? (
+          <div className="py-8 text-center">
+            <p className="text-zinc-500 text-sm">No habits yet</p>
+            <p className="text-zinc-600 text-xs mt-1">Add a habit to start seeing trends</p>
+          </div>
+        ) : (
+          <>
+            {/* Range selector */}
+            <div className="flex items-center bg-zinc-900 rounded-lg p-0.5 border border-zinc-700">
+              {ANALYTICS_RANGES.map((days) => (
+                <button
+                  key={days}
+                  onClick={() => setRange(days)}
+                  className={`flex-1 px-2 py-1 text-xs font-medium rounded-md transition-colors ${
+                    range === days
+                      ? 'bg-zinc-700 text-zinc-100'
+                      : 'text-zinc-500 hover:text-zinc-300'
+                  }`}
+                >
+                  {formatRange(days)}
+                </button>
+              ))}
+            </div>
+
+            {/* Per-habit completion rate and streaks */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-xs text-zinc-500">Completion rate</p>
+                <p className="text-[10px] text-zinc-600">Streak · Best</p>
+              </div>
+              <div className="space-y-1">
+                {habitStats.map(({ habit, stats, currentStreak }) => {
+                  const isSelected = selectedHabitId === habit.id
+                  const color = habitDisplayColors.get(habit.id) || DEFAULT_COLOR
+                  const percent = Math.round(stats.completionRate * 100)
+                  return (
+                    <button
+                      key={habit.id}
+                      onClick={() => setSelectedHabitId(isSelected ? null : habit.id)}
+                      className={`w-full flex items-center gap-3 px-2 py-2 rounded-lg transition-colors ${
+                        isSelected ? 'bg-zinc-800' : 'hover:bg-zinc-900'
+                      }`}
+                    >
+                      <div className="w-28 flex items-center gap-1.5 min-w-0 text-left">
+                        {habit.emoji && (
+                          <span className="text-xs flex-shrink-0" style={{ filter: 'drop-shadow(0 1px 2px rgba(0,0,0,0.8))' }}>{habit.emoji}</span>
+                        )}
+                        <span className="text-xs text-zinc-300 truncate">{habit.name}</span>
+                      </div>
+                      <div className="flex-1 h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+                        <div
+                          className="h-full rounded-full"
+                          style={{ width: `${percent}%`, backgroundColor: color }}
+                        />
+                      </div>
+                      <span className="w-9 text-right text-xs text-zinc-300 tabular-nums">{percent}%</span>
+                      <span className="w-14 text-right text-[10px] text-zinc-500 tabular-nums">
+                        {currentStreak} · {stats.longestStreak}{stats.period === 'week' ? 'w' : ''}
+                      </span>
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+
+            {/* Weekday distribution */}
+            <div>
+              <p className="text-xs text-zinc-500 mb-2">
+                By weekday{selectedHabitId ? ` · ${habits.find(h => h.id === selectedHabitId)?.name ?? ''}` : ''}
+              </p>
+              <div className="flex items-end gap-2 h-20">
+                {weekdayCounts.map((count, i) => (
+                  <div key={i} className="flex-1 h-full flex flex-col items-center justify-end gap-1">
+                    <span className="text-[10px] text-zinc-500 tabular-nums">{count}</span>
+                    <div
+                      className="w-full rounded-sm"
+                      style={{
+                        height: `${(count / maxWeekdayCount) * 100}%`,
+                        minHeight: 2,
+                        backgroundColor: count > 0 ? accentColor : '#27272a',
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2 mt-1">
+                {weekdayLabels.map((label, i) => (
+                  <span key={i} className="flex-1 text-center text-[10px] text-zinc-600">{label}</span>
+                ))}
+              </div>
+            </div>
+
+            {/* Year heatmap */}
+            <div>
+              <p className="text-xs text-zinc-500 mb-2">Last 12 months</p>
+              <YearHeatmap
+                weeks={heatmapWeeks}
+                color={accentColor}
+                locale={locale}
+                onDayClick={onDayClick ? (dateString) => {
+                  onClose()
+                  onDayClick(dateString)
+                } : undefined}
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </ResponsiveDialog>
+  )
+}
@@ -5,36 +5,56 @@ import {
   endOfMonth,
   addDays,
   addWeeks,
+  eachDayOfInterval,
   format,
-  isToday as checkIsToday,
   isSameMonth,
   isWeekend,
+  parseISO,
+  type Locale,
 } from 'date-fns'
-import { DayCell } from './DayCell'
+import { DayCell, formatCount, getDotStyle } from './DayCell'
+import { YearHeatmap, getHeatmapOpacity } from './YearHeatmap'
+import { isScheduled } from '../utils/schedule'
+import { getCalendarYearHeatmap } from '../utils/analytics'
+import { getLogicalDate, getLogicalDateString, getWeekdayLabels, type WeekStart } from '../utils/dates'
 import type { Habit, DayData } from '../types'
 
-export type ViewMode = 'month' | 'workweek' | 'day'
+export type ViewMode = 'month' | 'workweek' | 'day' | 'year'
 
 interface CalendarProps {
   habits: Habit[]
   habitDisplayColors: Map<string, string>
   getCompletionValue: (habitId: string, date: string) => number
+  getGoalProgress: (habitId: string, date: string) => number
   onDayClick: (dateString: string) => void
   onMonthChange?: (date: Date) => void
   onVisibleDatesChange?: (dates: string[]) => void
   viewMode: ViewMode
   currentDate: Date
+  weekStartsOn?: WeekStart
+  dayStartHour?: number // Before this hour "today" is still the previous day
+  locale?: Locale
+  yearHabitId?: string | null // Year view: one habit's contribution graph instead of all visible habits
+  onYearHabitChange?: (habitId: string | null) => void
+  onMonthClick?: (date: Date) => void // Year view: open a month
 }
 
 export function Calendar({
   habits,
   habitDisplayColors,
   getCompletionValue,
+  getGoalProgress,
   onDayClick,
   onMonthChange,
   onVisibleDatesChange,
   viewMode,
   currentDate,
+  weekStartsOn = 0,
+  dayStartHour = 0,
+  locale,
+  yearHabitId = null,
+  onYearHabitChange,
+  onMonthClick,
 }: CalendarProps) {
   const scrollRef = useRef<HTMLDivElement>(null)
   const isScrollingRef = useRef(false)
@@ -49,16 +69,17 @@ export function Calendar({
 
   // Generate all weeks: past weeks + current month + future weeks
   const { allWeeks, initialScrollIndex } = useMemo(() => {
-    const today = new Date()
+    const today = getLogicalDate(new Date(), dayStartHour)
+    const todayString = format(today, 'yyyy-MM-dd')
     const monthStart = startOfMonth(currentDate)
     const monthEnd = endOfMonth(currentDate)
 
     // Find the first week that contains a day from this month
-    const firstMonthWeek = startOfWeek(monthStart, { weekStartsOn: 0 })
+    const firstMonthWeek = startOfWeek(monthStart, { weekStartsOn })
     // Find the last week that contains a day from this month
-    const lastMonthWeek = startOfWeek(monthEnd, { weekStartsOn: 0 })
+    const lastMonthWeek = startOfWeek(monthEnd, { weekStartsOn })
     // Find the week containing today
-    const todayWeek = startOfWeek(today, { weekStartsOn: 0 })
+    const todayWeek = startOfWeek(today, { weekStartsOn })
 
     // Calculate total weeks to generate
     const weeksInMonth = Math.ceil(
@@ -83,11 +104,12 @@ export function Calendar({
       const weekDays: DayData[] = []
       for (let dayOffset = 0; dayOffset < 7; dayOffset++) {
         const date = addDays(weekStartDate, dayOffset)
+        const dateString = format(date, 'yyyy-MM-dd')
         weekDays.push({
           date,
-          dateString: format(date, 'yyyy-MM-dd'),
+          dateString,
           dayOfMonth: date.getDate(),
-          isToday: checkIsToday(date),
+          isToday: dateString === todayString,
           isCurrentMonth: isSameMonth(date, currentDate),
           month: date.getMonth(),
           year: date.getFullYear(),
@@ -109,7 +131,9 @@ export function Calendar({
     }
 
     return { allWeeks: weeks, initialScrollIndex: scrollToIndex }
-  }, [currentDate])
+  }, [currentDate, weekStartsOn, dayStartHour])
+
+  const weekdayLabels = useMemo(() => getWeekdayLabels(weekStartsOn, locale), [weekStartsOn, locale])
 
   // Scroll to the first week of the current month on mount/date change
   useEffect(() => {
@@ -293,10 +317,14 @@ export function Calendar({
     (dateString: string) => {
       return habits.map((habit) => {
         const value = getCompletionValue(habit.id, dateString)
-        return { habit, value, isComplete: value > 0 }
+        // Unscheduled days are neutral: anything logged shows as a full dot, never a shortfall
+        const progress = value <= 0 ? 0
+          : isScheduled(habit.schedule, parseISO(dateString)) ? getGoalProgress(habit.id, dateString)
+          : 1
+        return { habit, value, isComplete: value > 0, progress }
       })
     },
-    [habits, getCompletionValue]
+    [habits, getCompletionValue, getGoalProgress]
   )
 
   // Filter days for workweek mode
@@ -309,12 +337,31 @@ export function Calendar({
 
   const isVertical = viewMode === 'workweek'
 
+  if (viewMode === 'year') {
+    return (
+      <YearView
+        year={currentDate.getFullYear()}
+        habits={habits}
+        habitDisplayColors={habitDisplayColors}
+        getCompletionValue={getCompletionValue}
+        getGoalProgress={getGoalProgress}
+        selectedHabitId={yearHabitId}
+        onSelectHabit={onYearHabitChange}
+        onDayClick={onDayClick}
+        onMonthClick={onMonthClick}
+        weekStartsOn={weekStartsOn}
+        todayString={getLogicalDateString(new Date(), dayStartHour)}
+        locale={locale}
+      />
+    )
+  }
+
   if (!isVertical) {
     return (
       <div className="flex h-full flex-col">
         {/* Day headers */}
         <div className="grid grid-cols-7 px-2 py-2 border-b border-zinc-800 flex-shrink-0">
-          {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day) => (
+          {weekdayLabels.map((day) => (
             <div key={day} className="text-center text-xs font-medium text-zinc-500">
               {day}
             </div>
@@ -384,6 +431,7 @@ export function Calendar({
               completions={getDayCompletions(day.dateString)}
               totalHabits={habits.length}
               habitDisplayColors={habitDisplayColors}
+              locale={locale}
             />
           </button>
         ))}
@@ -395,15 +443,16 @@ export function Calendar({
 // Vertical day cell for week/workweek view
 interface DayCellVerticalProps {
   day: DayData
-  completions: { habit: Habit; value: number; isComplete: boolean }[]
+  completions: { habit: Habit; value: number; isComplete: boolean; progress: number }[]
   totalHabits: number
   habitDisplayColors: Map<string, string>
+  locale?: Locale
 }
 
 // Max visible habits in vertical view before showing +X badge
 const MAX_VISIBLE_HABITS_VERTICAL = 8
 
-function DayCellVertical({ day, completions, totalHabits: _totalHabits, habitDisplayColors }: DayCellVerticalProps) {
+function DayCellVertical({ day, completions, totalHabits: _totalHabits, habitDisplayColors, locale }: DayCellVerticalProps) {
   const isCurrentMonth = day.isCurrentMonth
   const isToday = day.isToday
 
@@ -427,7 +476,7 @@ function DayCellVertical({ day, completions, totalHabits: _totalHabits, habitDis
       {/* Date section */}
       <div className="flex flex-col items-center w-12 flex-shrink-0">
         <span className="text-xs text-zinc-500 uppercase">
-          {format(day.date, 'EEE')}
+          {format(day.date, 'EEE', { locale })}
         </span>
         <span
           className={`
@@ -446,16 +495,27 @@ function DayCellVertical({ day, completions, totalHabits: _totalHabits, habitDis
 
       {/* Dots flowing horizontally with wrap - responsive sizes */}
       <div className="flex-1 flex flex-wrap items-center gap-1.5 sm:gap-2 overflow-hidden">
-        {visibleHabits.map(({ habit }) => {
+        {visibleHabits.map(({ habit, value, progress }) => {
           const color = habitDisplayColors.get(habit.id) || '#888'
+          const isCounter = habit.type === 'counter'
           return (
             <div
               key={habit.id}
-              className="w-6 h-6 sm:w-8 sm:h-8 rounded-full flex items-center justify-center flex-shrink-0"
-              style={{ backgroundColor: color }}
+              className="relative w-6 h-6 sm:w-8 sm:h-8 rounded-full flex items-center justify-center flex-shrink-0"
+              style={getDotStyle(color, progress)}
             >
-              {habit.emoji && (
+              {habit.emoji ? (
                 <span className="text-base sm:text-xl leading-none" style={{ filter: 'drop-shadow(0 1px 2px rgba(0,0,0,0.8))' }}>{habit.emoji}</span>
+              ) : isCounter && (
+                <span className="text-xs sm:text-sm font-semibold leading-none text-white tabular-nums" style={{ textShadow: '0 1px 2px rgba(0,0,0,0.8)' }}>
+                  {formatCount(value)}
+                </span>
+              )}
+              {/* Count badge when the dot already shows an emoji */}
+              {habit.emoji && isCounter && (
+                <span className="absolute -bottom-0.5 -right-0.5 min-w-[14px] h-3.5 px-0.5 rounded-full bg-zinc-950 text-[9px] font-semibold leading-[14px] text-center text-zinc-100 tabular-nums">
+                  {formatCount(value)}
+                </span>
               )}
             </div>
           )
@@ -474,3 +534,170 @@ function DayCellVertical({ day, completions, totalHabits: _totalHabits, habitDis
     </div>
   )
 }
+
+// Year view: 12 mini months shaded by the share of habits done, or one habit's contribution graph
+interface YearViewProps {
+  year: number
+  habits: Habit[]
+  habitDisplayColors: Map<string, string>
+  getCompletionValue: (habitId: string, date: string) => number
+  getGoalProgress: (habitId: string, date: string) => number
+  selectedHabitId: string | null
+  onSelectHabit?: (habitId: string | null) => void
+  onDayClick: (dateString: string) => void
+  onMonthClick?: (date: Date) => void
+  weekStartsOn: WeekStart
+  todayString: string
+  locale?: Locale
+}
+
+const YEAR_DEFAULT_COLOR = '#e4e4e7'
+
+function YearView({
+  year,
+  habits,
+  habitDisplayColors,
+  getCompletionValue,
+  getGoalProgress,
+  selectedHabitId,
+  onSelectHabit,
+  onDayClick,
+  onMonthClick,
+  weekStartsOn,
+  todayString,
+  locale,
+}: YearViewProps) {
+  const selectedHabit = habits.find(h => h.id === selectedHabitId) ?? null
+
+  // 0-1 per day: goal progress for the selected habit, otherwise the share of habits done
+  const getDayValue = useCallback((dateString: string) => {
+    if (selectedHabit) {
+      const value = getCompletionValue(selectedHabit.id, dateString)
+      if (value <= 0) return 0
+      return isScheduled(selectedHabit.schedule, parseISO(dateString)) ? getGoalProgress(selectedHabit.id, dateString) : 1
+    }
+    if (habits.length === 0) return 0
+    return habits.filter(h => getCompletionValue(h.id, dateString) > 0).length / habits.length
+  }, [selectedHabit, habits, getCompletionValue, getGoalProgress])
+
+  const months = useMemo(() => {
+    return Array.from({ length: 12 }, (_, month) => {
+      const monthStart = new Date(year, month, 1)
+      const days = eachDayOfInterval({ start: monthStart, end: endOfMonth(monthStart) }).map(date => {
+        const dateString = format(date, 'yyyy-MM-dd')
+        return { dateString, value: getDayValue(dateString) }
+      })
+      return { monthStart, leadingBlanks: (monthStart.getDay() - weekStartsOn + 7) % 7, days }
+    })
+  }, [year, getDayValue, weekStartsOn])
+
+  const heatmapWeeks = useMemo(
+    () => (selectedHabit ? getCalendarYearHeatmap(year, getDayValue, weekStartsOn) : []),
+    [selectedHabit, year, getDayValue, weekStartsOn]
+  )
+
+  const color = selectedHabit
+    ? habitDisplayColors.get(selectedHabit.id) || YEAR_DEFAULT_COLOR
+    : habits.length === 1 ? habitDisplayColors.get(habits[0].id) || YEAR_DEFAULT_COLOR
+    : YEAR_DEFAULT_COLOR
+  const daysLogged = months.reduce((total, m) => total + m.days.filter(d => d.value > 0).length, 0)
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* All visible habits, or a single habit */}
+      {onSelectHabit && habits.length > 1 && (
+        <div className="flex items-center gap-1.5 overflow-x-auto scrollbar-hide px-3 py-2 border-b border-zinc-800 flex-shrink-0">
+          <button
+            onClick={() => onSelectHabit(null)}
+            className={`flex-shrink-0 px-2.5 py-1 rounded-lg text-xs transition-colors ${
+              !selectedHabit ? 'bg-zinc-700 text-zinc-100' : 'bg-zinc-900 text-zinc-400 hover:bg-zinc-800'
+            }`}
+          >
+            All habits
+          </button>
+          {habits.map((habit) => (
+            <button
+              key={habit.id}
+              onClick={() => onSelectHabit(habit.id)}
+              className={`flex-shrink-0 flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs transition-colors ${
+                selectedHabit?.id === habit.id ? 'bg-zinc-700 text-zinc-100' : 'bg-zinc-900 text-zinc-400 hover:bg-zinc-800'
+              }`}
+            >
+              {habit.emoji ? (
+                <span>{habit.emoji}</span>
+              ) : (
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: habitDisplayColors.get(habit.id) || YEAR_DEFAULT_COLOR }} />
+              )}
+              {habit.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto px-3 py-3">
+        <p className="text-xs text-zinc-500 mb-3">
+          {daysLogged} {daysLogged === 1 ? 'day' : 'days'} logged in {year}
+          {selectedHabit ? ` · ${selectedHabit.name}` : ''}
+        </p>
+
+        {selectedHabit ? (
+          // Contribution graph
+          <div className="overflow-x-auto">
+            <div className="min-w-[600px]">
+              <div className="grid grid-cols-12 mb-1">
+                {months.map(({ monthStart }) => (
+                  <button
+                    key={monthStart.getMonth()}
+                    onClick={() => onMonthClick?.(monthStart)}
+                    className="text-left text-[10px] text-zinc-500 hover:text-zinc-300"
+                  >
+                    {format(monthStart, 'LLL', { locale })}
+                  </button>
+                ))}
+              </div>
+              <YearHeatmap weeks={heatmapWeeks} color={color} onDayClick={onDayClick} locale={locale} />
+            </div>
+          </div>
+        ) : (
+          // 12 mini months
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-x-4 gap-y-5">
+            {months.map(({ monthStart, leadingBlanks, days }) => (
+              <div key={monthStart.getMonth()}>
+                <button
+                  onClick={() => onMonthClick?.(monthStart)}
+                  className="text-xs font-medium text-zinc-300 hover:text-zinc-100 mb-1.5"
+                >
+                  {format(monthStart, 'LLLL', { locale })}
+                </button>
+                <div className="grid grid-cols-7 gap-px">
+                  {Array.from({ length: leadingBlanks }, (_, i) => (
+                    <div key={`blank-${i}`} />
+                  ))}
+                  {days.map(({ dateString, value }) => {
+                    const opacity = getHeatmapOpacity(value)
+                    return (
+                      <button
+                        key={dateString}
+                        onClick={() => onDayClick(dateString)}
+                        title={`${format(parseISO(dateString), 'PP', { locale })} · ${Math.round(value * 100)}%`}
+                        className={`aspect-square w-full rounded-[2px] bg-zinc-800/70 hover:ring-1 hover:ring-zinc-500 ${
+                          dateString === todayString ? 'ring-1 ring-zinc-300' : ''
+                        }`}
+                        style={opacity > 0 ? { backgroundColor: color, opacity } : undefined}
+                      />
+                    )
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <style>{`
+        .scrollbar-hide::-webkit-scrollbar { display: none; }
+        .scrollbar-hide { -ms-overflow-style: none; scrollbar-width: none; }
+      `}</style>
+    </div>
+  )
+}
@@ -0,0 +1,256 @@
+import { useState, useRef, useMemo, useEffect } from 'react'
+import { format, parseISO, subDays } from 'date-fns'
+import { toast } from 'sonner'
+import { ResponsiveDialog } from './ResponsiveDialog'
+import {
+  buildCalendar,
+  getCalendarFilename,
+  parseCalendar,
+  matchEventToHabit,
+  type CalendarEvent,
+  type CalendarImportRule,
+} from '../utils/ical'
+import { downloadFile } from '../utils/download'
+import { getLogicalDateString, getZonedDateTime } from '../utils/dates'
+import type { Habit, TimedEntry } from '../types'
+
+const RULES_STORAGE_KEY = 'habit-calendar-ics-rules'
+
+function loadRules(): CalendarImportRule[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const saved = localStorage.getItem(RULES_STORAGE_KEY)
+    return saved ? JSON.parse(saved) : []
+  } catch {
+    return []
+  }
+}
+
+interface CalendarDialogProps {
+  date: Date
+  dayStartHour: number // Events before the rollover belong to the previous day
+  habits: Habit[]
+  timedEntries: TimedEntry[]
+  onAddTimedEntry: (habitId: string, date: string, startTime: string, duration: number) => TimedEntry
+  onClose: () => void
+}
+
+export function CalendarDialog({ date, dayStartHour, habits, timedEntries, onAddTimedEntry, onClose }: CalendarDialogProps) {
+  const dateString = format(date, 'yyyy-MM-dd')
+  const dayEntries = timedEntries.filter(e => e.date === dateString)
+  // Exports cover archived habits too, but imported events only go to active ones
+  const activeHabits = useMemo(() => habits.filter(h => !h.archived), [habits])
+
+  // Contents of an .ics file, waiting for the user to confirm the import
+  const [pendingCalendar, setPendingCalendar] = useState<string | null>(null)
+  const [rules, setRules] = useState<CalendarImportRule[]>(loadRules)
+  const [newKeyword, setNewKeyword] = useState('')
+  const [newRuleHabitId, setNewRuleHabitId] = useState(() => activeHabits[0]?.id ?? '')
+  const [startDate, setStartDate] = useState(() => format(subDays(new Date(), 29), 'yyyy-MM-dd'))
+  const [endDate, setEndDate] = useState(() => format(new Date(), 'yyyy-MM-dd'))
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Persist keyword rules for the next import
+  useEffect(() => {
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules))
+  }, [rules])
+
+  const handleExport = (entries: TimedEntry[], label: string) => {
+    downloadFile(getCalendarFilename(label), buildCalendar(entries, habits, dayStartHour), 'text/calendar')
+    toast.success(`Exported ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}`)
+    onClose()
+  }
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = '' // Allow picking the same file again
+    if (!file) return
+
+    try {
+      const text = await file.text()
+      parseCalendar(text) // Rejects files that aren't calendars
+      setPendingCalendar(text)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read calendar')
+    }
+  }
+
+  // Events in the chosen range, split into those with a habit and the rest
+  // Recurring events are expanded from the range start, so long-running series still reach it
+  const { matched, unmatchedTitles } = useMemo(() => {
+    const matched: { event: CalendarEvent; habit: Habit }[] = []
+    const unmatched = new Set<string>()
+    const events = pendingCalendar ? parseCalendar(pendingCalendar, new Date(), startDate ? parseISO(startDate) : null) : []
+    for (const event of events) {
+      const eventDate = getLogicalDateString(event.start, dayStartHour)
+      if (eventDate < startDate || eventDate > endDate) continue
+      const habit = matchEventToHabit(event.summary, activeHabits, rules)
+      if (habit) matched.push({ event, habit })
+      else if (event.summary) unmatched.add(event.summary)
+    }
+    return { matched, unmatchedTitles: Array.from(unmatched) }
+  }, [pendingCalendar, activeHabits, rules, startDate, endDate, dayStartHour])
+
+  const handleAddRule = () => {
+    const keyword = newKeyword.trim()
+    if (!keyword || !newRuleHabitId) return
+    setRules(prev => [...prev.filter(r => r.keyword.toLowerCase() !== keyword.toLowerCase()), { keyword, habitId: newRuleHabitId }])
+    setNewKeyword('')
+  }
+
+  // addTimedEntry merges each event with any overlapping entry, so re-importing is harmless
+  const handleImport = () => {
+    for (const { event, habit } of matched) {
+      const duration = Math.max(1, Math.round((event.end.getTime() - event.start.getTime()) / 60000))
+      onAddTimedEntry(habit.id, getLogicalDateString(event.start, dayStartHour), getZonedDateTime(event.start).time, duration)
+    }
+    toast.success(`Imported ${matched.length} ${matched.length === 1 ? 'event' : 'events'}`)
+    setPendingCalendar(null)
+    onClose()
+  }
+
+  const inputClassName = 'flex-1 min-w-0 rounded-lg border border-zinc-800 bg-zinc-900 px-3 py-1.5 text-sm text-zinc-100 placeholder-zinc-600 outline-none focus:border-zinc-600 [color-scheme:dark]'
+
+  if (pendingCalendar) {
+    return (
+      <ResponsiveDialog isOpen={true} onClose={() => setPendingCalendar(null)} title="Import Calendar">
+        <div className="px-4 py-4 space-y-4">
+          {/* Date range */}
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={startDate}
+              max={endDate || undefined}
+              onChange={(e) => setStartDate(e.target.value)}
+              className={inputClassName}
+            />
+            <span className="text-xs text-zinc-500">to</span>
+            <input
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => setEndDate(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+
+          {/* Keyword rules */}
+          <div className="space-y-2">
+            <div className="text-xs text-zinc-500">
+              Events named like a habit are matched automatically. Add keywords for the rest.
+            </div>
+            {rules.map((rule) => (
+              <div key={rule.keyword} className="flex items-center gap-2 text-sm text-zinc-300">
+                <span className="flex-1 truncate">"{rule.keyword}" → {habits.find(h => h.id === rule.habitId)?.name ?? 'Deleted habit'}</span>
+                <button
+                  onClick={() => setRules(prev => prev.filter(r => r !== rule))}
+                  className="text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={newKeyword}
+                onChange={(e) => setNewKeyword(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddRule()}
+                placeholder="Keyword, e.g. standup"
+                className={inputClassName}
+              />
+              <select
+                value={newRuleHabitId}
+                onChange={(e) => setNewRuleHabitId(e.target.value)}
+                className={inputClassName}
+              >
+                {activeHabits.map((habit) => (
+                  <option key={habit.id} value={habit.id}>{habit.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleAddRule}
+                disabled={!newKeyword.trim() || !newRuleHabitId}
+                className="px-3 py-1.5 rounded-lg bg-zinc-800 text-zinc-200 text-sm hover:bg-zinc-700 transition-colors disabled:opacity-50"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="p-3 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-300">
+            {matched.length} {matched.length === 1 ? 'event' : 'events'} will be added
+            {unmatchedTitles.length > 0 && (
+              <div className="text-xs text-zinc-500 mt-1 truncate">
+                Not matched: {unmatchedTitles.slice(0, 5).join(', ')}{unmatchedTitles.length > 5 ? ` and ${unmatchedTitles.length - 5} more` : ''}
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={() => setPendingCalendar(null)}
+              className="flex-1 py-2.5 px-4 rounded-lg bg-zinc-800 text-zinc-200 text-sm hover:bg-zinc-700 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={matched.length === 0}
+              className="flex-1 py-2.5 px-4 rounded-lg bg-zinc-100 text-zinc-900 text-sm font-medium hover:bg-white transition-colors disabled:opacity-50"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      </ResponsiveDialog>
+    )
+  }
+
+  return (
+    <ResponsiveDialog isOpen={true} onClose={onClose} title="Calendar">
+      <div className="px-4 py-4 space-y-3">
+        <p className="text-xs text-zinc-500">
+          Download timed entries as an .ics file to overlay them on Google Calendar, Outlook or Apple Calendar.
+        </p>
+
+        <button
+          onClick={() => handleExport(dayEntries, dateString)}
+          disabled={dayEntries.length === 0}
+          className="w-full py-2.5 px-4 rounded-lg bg-zinc-800 text-zinc-200 text-sm hover:bg-zinc-700 transition-colors disabled:opacity-50"
+        >
+          Export {format(date, 'MMM d')} ({dayEntries.length})
+        </button>
+        <button
+          onClick={() => handleExport(timedEntries, 'all')}
+          disabled={timedEntries.length === 0}
+          className="w-full py-2.5 px-4 rounded-lg bg-zinc-800 text-zinc-200 text-sm hover:bg-zinc-700 transition-colors disabled:opacity-50"
+        >
+          Export all entries ({timedEntries.length})
+        </button>
+
+        {/* Import events as timed entries */}
+        <div className="pt-3 border-t border-zinc-800 space-y-3">
+          <p className="text-xs text-zinc-500">
+            Turn events from an .ics file into timed entries. Daily and weekly repeats are included.
+          </p>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={habits.length === 0}
+            className="w-full py-2.5 px-4 rounded-lg bg-zinc-800 text-zinc-200 text-sm hover:bg-zinc-700 transition-colors disabled:opacity-50"
+          >
+            Import .ics file
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="text/calendar,.ics"
+            onChange={handleImportFile}
+            className="hidden"
+          />
+        </div>
+      </div>
+    </ResponsiveDialog>
+  )
+}
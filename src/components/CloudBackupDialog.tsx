@@ -1,6 +1,9 @@
-import { useState } from 'react'
+import { useState, useRef } from 'react'
+import { toast } from 'sonner'
 import { ResponsiveDialog } from './ResponsiveDialog'
+import { parseBackup } from '../utils/backup'
 import type { Account } from '../hooks/useGoogleAuth'
+import type { HabitData } from '../types'
 
 interface CloudBackupDialogProps {
   isOpen: boolean
@@ -15,6 +18,11 @@ interface CloudBackupDialogProps {
   onRemoveAccount: (email: string) => void
   onSignOut: () => void
   onSyncNow: () => void
+  onExportData: () => void
+  onExportCsv: () => void
+  onImportHistory: () => void
+  onOpenSettings: () => void
+  onImportData: (data: HabitData, mode: 'replace' | 'merge') => void
   onDeleteAllData: () => void
 }
 
@@ -30,9 +38,78 @@ export function CloudBackupDialog({
   onSwitchAccount,
   onRemoveAccount,
   onSyncNow,
+  onExportData,
+  onExportCsv,
+  onImportHistory,
+  onOpenSettings,
+  onImportData,
   onDeleteAllData,
 }: CloudBackupDialogProps) {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
+  // Parsed backup waiting for the user to pick merge or replace
+  const [pendingImport, setPendingImport] = useState<HabitData | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = '' // Allow picking the same file again
+    if (!file) return
+
+    try {
+      setPendingImport(parseBackup(await file.text()))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read backup')
+    }
+  }
+
+  if (pendingImport) {
+    const handleImport = (mode: 'replace' | 'merge') => {
+      onImportData(pendingImport, mode)
+      toast.success(mode === 'replace' ? 'Backup restored' : 'Backup merged')
+      setPendingImport(null)
+      onClose()
+    }
+
+    return (
+      <ResponsiveDialog
+        isOpen={!!pendingImport}
+        onClose={() => setPendingImport(null)}
+        title="Import Backup"
+      >
+        <div className="px-4 py-4 space-y-4">
+          <div className="p-3 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-300">
+            {pendingImport.habits.length} habits · {pendingImport.completions.length} check-ins · {pendingImport.timedEntries?.length ?? 0} timed entries
+          </div>
+
+          <div className="space-y-2 text-xs text-zinc-500">
+            <p><span className="text-zinc-300">Merge</span> keeps your current data and adds the backup, keeping the newer copy of anything in both.</p>
+            <p><span className="text-zinc-300">Replace</span> deletes your current data (on all synced devices) and restores the backup.</p>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={() => setPendingImport(null)}
+              className="flex-1 py-2.5 px-4 rounded-lg bg-zinc-800 text-zinc-200 text-sm hover:bg-zinc-700 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => handleImport('merge')}
+              className="flex-1 py-2.5 px-4 rounded-lg bg-zinc-100 text-zinc-900 text-sm font-medium hover:bg-white transition-colors"
+            >
+              Merge
+            </button>
+            <button
+              onClick={() => handleImport('replace')}
+              className="flex-1 py-2.5 px-4 rounded-lg bg-red-600 text-white text-sm font-medium hover:bg-red-500 transition-colors"
+            >
+              Replace
+            </button>
+          </div>
+        </div>
+      </ResponsiveDialog>
+    )
+  }
 
   if (showDeleteConfirm) {
     return (
@@ -203,6 +280,62 @@ export function CloudBackupDialog({
           </p>
         )}
 
+        {/* Backup file export / import */}
+        <div className="pt-3 mt-3 border-t border-zinc-800 flex gap-2">
+          <button
+            onClick={onExportData}
+            className="flex-1 py-2 px-4 rounded-lg bg-zinc-800 text-zinc-300 text-sm hover:bg-zinc-700 transition-colors flex items-center justify-center gap-2"
+          >
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
+            </svg>
+            Export
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex-1 py-2 px-4 rounded-lg bg-zinc-800 text-zinc-300 text-sm hover:bg-zinc-700 transition-colors flex items-center justify-center gap-2"
+          >
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" />
+            </svg>
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImportFile}
+            className="hidden"
+          />
+        </div>
+        <button
+          onClick={() => {
+            onClose()
+            onExportCsv()
+          }}
+          className="w-full py-2 px-4 mt-2 rounded-lg text-zinc-400 text-sm hover:text-zinc-200 hover:bg-zinc-900 transition-colors"
+        >
+          Export CSV for spreadsheets
+        </button>
+        <button
+          onClick={() => {
+            onClose()
+            onImportHistory()
+          }}
+          className="w-full py-2 px-4 rounded-lg text-zinc-400 text-sm hover:text-zinc-200 hover:bg-zinc-900 transition-colors"
+        >
+          Import from another habit tracker
+        </button>
+        <button
+          onClick={() => {
+            onClose()
+            onOpenSettings()
+          }}
+          className="w-full py-2 px-4 rounded-lg text-zinc-400 text-sm hover:text-zinc-200 hover:bg-zinc-900 transition-colors"
+        >
+          Calendar and date settings
+        </button>
+
         {/* Delete all data */}
         <div className="pt-3 mt-3 border-t border-zinc-800">
           <button
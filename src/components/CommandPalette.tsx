@@ -0,0 +1,86 @@
+import { useMemo, useState } from 'react'
+import { ResponsiveDialog } from './ResponsiveDialog'
+import { searchAll, type SearchResult, type SearchSources } from '../utils/search'
+
+interface CommandPaletteProps extends SearchSources {
+  onSelect: (result: SearchResult) => void
+  onClose: () => void
+}
+
+const KIND_LABELS: Record<SearchResult['kind'], string> = {
+  date: 'Go to',
+  habit: 'Habit',
+  group: 'Group',
+  note: 'Note',
+}
+
+export function CommandPalette({ habits, groups, completions, timedEntries, dayNotes, onSelect, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  const results = useMemo(
+    () => searchAll({ habits, groups, completions, timedEntries, dayNotes }, query),
+    [habits, groups, completions, timedEntries, dayNotes, query]
+  )
+
+  // Arrow keys move through results, Enter opens the highlighted one
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setActiveIndex(i => Math.min(i + 1, results.length - 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex(i => Math.max(i - 1, 0))
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault()
+      onSelect(results[activeIndex])
+    }
+  }
+
+  return (
+    <ResponsiveDialog isOpen={true} onClose={onClose} title="Search">
+      <div className="px-4 py-4 space-y-3">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setActiveIndex(0)
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Habits, groups, notes or a date..."
+          className="w-full rounded-lg border border-zinc-800 bg-zinc-900 px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 outline-none focus:border-zinc-600"
+          autoFocus
+        />
+
+        {query.trim() && results.length === 0 && (
+          <p className="py-6 text-center text-sm text-zinc-500">No matches</p>
+        )}
+
+        <div className="space-y-1">
+          {results.map((result, index) => (
+            <button
+              key={result.id}
+              onClick={() => onSelect(result)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`w-full text-left rounded-lg px-3 py-2 transition-colors ${
+                index === activeIndex ? 'bg-zinc-900' : ''
+              }`}
+            >
+              <div className="flex items-center gap-2 text-xs text-zinc-500">
+                <span className="text-zinc-400">{KIND_LABELS[result.kind]}</span>
+                {result.subtitle && (
+                  <>
+                    <span>·</span>
+                    <span className="truncate">{result.subtitle}</span>
+                  </>
+                )}
+              </div>
+              <p className="text-sm text-zinc-200 whitespace-pre-wrap line-clamp-3">{result.title}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+    </ResponsiveDialog>
+  )
+}
@@ -0,0 +1,127 @@
+import { useState, useCallback, useMemo } from 'react'
+import { format, subDays } from 'date-fns'
+import { toast } from 'sonner'
+import { ResponsiveDialog } from './ResponsiveDialog'
+import { HabitChipList } from './HabitChipList'
+import { buildCompletionsCsv, buildTimedEntriesCsv, getCsvFilename } from '../utils/csv'
+import { downloadFile } from '../utils/download'
+import type { Habit, HabitData, HabitGroup } from '../types'
+
+interface CsvExportDialogProps {
+  habits: Habit[]
+  groups: HabitGroup[]
+  getAllData: () => HabitData
+  onClose: () => void
+}
+
+export function CsvExportDialog({
+  habits,
+  groups,
+  getAllData,
+  onClose,
+}: CsvExportDialogProps) {
+  const [startDate, setStartDate] = useState(() => format(subDays(new Date(), 29), 'yyyy-MM-dd'))
+  const [endDate, setEndDate] = useState(() => format(new Date(), 'yyyy-MM-dd'))
+  // Same model as the Show / Hide filter, starting from every habit (hidden and archived ones too)
+  const [selectedIds, setSelectedIds] = useState(() => new Set(habits.map(h => h.id)))
+  const [excludedGroupIds, setExcludedGroupIds] = useState(() => new Set<string>())
+
+  const toggleIn = (set: Set<string>, id: string) => {
+    const next = new Set(set)
+    if (next.has(id)) next.delete(id)
+    else next.add(id)
+    return next
+  }
+
+  const getIsSelected = useCallback((habitId: string) => selectedIds.has(habitId), [selectedIds])
+
+  // Habits in an excluded group are greyed out
+  const getIsDisabled = useCallback((habitId: string) => {
+    const habit = habits.find(h => h.id === habitId)
+    return !!habit?.groupId && excludedGroupIds.has(habit.groupId)
+  }, [habits, excludedGroupIds])
+
+  const getIsGroupSelected = useCallback((groupId: string) => !excludedGroupIds.has(groupId), [excludedGroupIds])
+
+  const exportedHabitIds = useMemo(() => {
+    return new Set(habits
+      .filter(h => selectedIds.has(h.id) && !(h.groupId && excludedGroupIds.has(h.groupId)))
+      .map(h => h.id))
+  }, [habits, selectedIds, excludedGroupIds])
+
+  const isRangeValid = !!startDate && !!endDate && startDate <= endDate
+  const canExport = isRangeValid && exportedHabitIds.size > 0
+
+  // One file per click - browsers tend to block a second download from the same click
+  // The dialog stays open so the other file can be downloaded too
+  const handleExport = (kind: 'completions' | 'timed-entries') => {
+    const data = getAllData()
+    const options = { startDate, endDate, habitIds: exportedHabitIds }
+    const csv = kind === 'completions' ? buildCompletionsCsv(data, options) : buildTimedEntriesCsv(data, options)
+    downloadFile(getCsvFilename(kind), csv, 'text/csv')
+    toast.success(kind === 'completions' ? 'Check-ins exported' : 'Timed entries exported')
+  }
+
+  return (
+    <ResponsiveDialog isOpen={true} onClose={onClose} title="Export CSV">
+      <div className="px-4 py-4 space-y-4">
+        {/* Date range */}
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={startDate}
+            max={endDate || undefined}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="flex-1 min-w-0 rounded-lg border border-zinc-800 bg-zinc-900 px-3 py-2 text-sm text-zinc-100 outline-none focus:border-zinc-600 [color-scheme:dark]"
+          />
+          <span className="text-xs text-zinc-500">to</span>
+          <input
+            type="date"
+            value={endDate}
+            min={startDate || undefined}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="flex-1 min-w-0 rounded-lg border border-zinc-800 bg-zinc-900 px-3 py-2 text-sm text-zinc-100 outline-none focus:border-zinc-600 [color-scheme:dark]"
+          />
+        </div>
+
+        {/* Habit / group filter */}
+        <div>
+          <div className="text-xs text-zinc-500 mb-3">
+            Exporting {exportedHabitIds.size} of {habits.length} habits
+          </div>
+          <HabitChipList
+            habits={habits}
+            groups={groups}
+            getIsSelected={getIsSelected}
+            getIsDisabled={getIsDisabled}
+            onSelect={(habitId) => setSelectedIds(prev => toggleIn(prev, habitId))}
+            onGroupSelect={(groupId) => setExcludedGroupIds(prev => toggleIn(prev, groupId))}
+            getIsGroupSelected={getIsGroupSelected}
+            showStrikethrough={true}
+          />
+        </div>
+
+        <p className="text-xs text-zinc-600">
+          Check-ins have a date, habit, group and value; timed entries a date, habit, group, start, duration and end.
+        </p>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleExport('completions')}
+            disabled={!canExport}
+            className="flex-1 py-2.5 px-4 rounded-lg bg-zinc-100 text-zinc-900 text-sm font-medium hover:bg-white transition-colors disabled:opacity-50"
+          >
+            Export check-ins
+          </button>
+          <button
+            onClick={() => handleExport('timed-entries')}
+            disabled={!canExport}
+            className="flex-1 py-2.5 px-4 rounded-lg bg-zinc-100 text-zinc-900 text-sm font-medium hover:bg-white transition-colors disabled:opacity-50"
+          >
+            Export timed entries
+          </button>
+        </div>
+      </div>
+    </ResponsiveDialog>
+  )
+}
@@ -1,10 +1,11 @@
-import { memo, useRef, useState, useLayoutEffect } from 'react'
+import { memo, useRef, useState, useLayoutEffect, type CSSProperties } from 'react'
 import type { DayData, Habit } from '../types'
 
 interface HabitCompletion {
   habit: Habit
   value: number
   isComplete: boolean
+  progress: number // 0-1 towards the habit's goal
 }
 
 interface DayCellProps {
@@ -21,6 +22,20 @@ const DOT_SIZE_DESKTOP = 28 // w-7 = 1.75rem = 28px
 const GAP_MOBILE = 4 // gap-1 = 0.25rem = 4px
 const GAP_DESKTOP = 6 // gap-1.5 = 0.375rem = 6px
 
+// Keep counter labels inside a dot
+export function formatCount(value: number): string {
+  return value > 99 ? '99+' : String(value)
+}
+
+// Filled dot once the goal is met, otherwise a ring filled up to the progress
+export function getDotStyle(color: string, progress: number): CSSProperties {
+  if (progress >= 1) return { backgroundColor: color }
+  const degrees = Math.round(progress * 360)
+  return {
+    background: `radial-gradient(closest-side, #09090b 68%, transparent 70%), conic-gradient(${color} ${degrees}deg, #3f3f46 0)`,
+  }
+}
+
 export const DayCell = memo(function DayCell({
   day,
   completions,
@@ -107,17 +122,28 @@ export const DayCell = memo(function DayCell({
         ref={containerRef}
         className="flex-1 w-full flex flex-wrap justify-center content-start gap-1 sm:gap-1.5 overflow-hidden mt-1 sm:mt-1.5"
       >
-        {visibleHabits.map(({ habit }) => {
+        {visibleHabits.map(({ habit, value, progress }) => {
           const color = habitDisplayColors.get(habit.id) || '#888'
+          const isCounter = habit.type === 'counter'
           return (
             <div
               key={habit.id}
-              className="w-5 h-5 sm:w-7 sm:h-7 rounded-full flex items-center justify-center flex-shrink-0"
-              style={{ backgroundColor: color }}
-              title={habit.name}
+              className="relative w-5 h-5 sm:w-7 sm:h-7 rounded-full flex items-center justify-center flex-shrink-0"
+              style={getDotStyle(color, progress)}
+              title={`${isCounter ? `${habit.name}: ${value}${habit.unit ? ` ${habit.unit}` : ''}` : habit.name}${progress < 1 ? ` (${Math.round(progress * 100)}% of goal)` : ''}`}
             >
-              {habit.emoji && (
+              {habit.emoji ? (
                 <span className="text-sm sm:text-lg leading-none" style={{ filter: 'drop-shadow(0 1px 2px rgba(0,0,0,0.8))' }}>{habit.emoji}</span>
+              ) : isCounter && (
+                <span className="text-[10px] sm:text-xs font-semibold leading-none text-white tabular-nums" style={{ textShadow: '0 1px 2px rgba(0,0,0,0.8)' }}>
+                  {formatCount(value)}
+                </span>
+              )}
+              {/* Count badge when the dot already shows an emoji */}
+              {habit.emoji && isCounter && (
+                <span className="absolute -bottom-0.5 -right-0.5 min-w-[12px] h-3 px-0.5 rounded-full bg-zinc-950 text-[8px] font-semibold leading-3 text-center text-zinc-100 tabular-nums">
+                  {formatCount(value)}
+                </span>
               )}
             </div>
           )
@@ -1,24 +1,40 @@
 import { useEffect, useRef } from 'react'
-import { format, parseISO, isToday as checkIsToday } from 'date-fns'
+import { format, parseISO } from 'date-fns'
 import { HabitChipList } from './HabitChipList'
+import { NoteField } from './NoteField'
+import { getLogicalDateString } from '../utils/dates'
 import type { Habit, HabitGroup } from '../types'
 
 interface DayModalProps {
   dateString: string
+  dayStartHour: number
   habits: Habit[]
   groups: HabitGroup[]
   getCompletionValue: (habitId: string, date: string) => number
   onToggleBinary: (habitId: string, date: string) => boolean
+  onAdjustCounter: (habitId: string, date: string, delta: number) => number
+  hasCompletion: (habitId: string, date: string) => boolean
+  getCompletionNote: (habitId: string, date: string) => string
+  onSetCompletionNote: (habitId: string, date: string, note: string) => void
+  getDayNote: (date: string) => string
+  onSetDayNote: (date: string, text: string) => void
   onClose: () => void
   onCelebrate: () => void
 }
 
 export function DayModal({
   dateString,
+  dayStartHour,
   habits,
   groups,
   getCompletionValue,
   onToggleBinary,
+  onAdjustCounter,
+  hasCompletion,
+  getCompletionNote,
+  onSetCompletionNote,
+  getDayNote,
+  onSetDayNote,
   onClose,
   onCelebrate,
 }: DayModalProps) {
@@ -37,9 +53,12 @@ export function DayModal({
   }
 
   const date = parseISO(dateString)
-  const isToday = checkIsToday(date)
+  const isToday = getLogicalDateString(new Date(), dayStartHour) === dateString
 
-  const completedCount = habits.filter(h => getCompletionValue(h.id, dateString) > 0).length
+  const completedHabits = habits.filter(h => getCompletionValue(h.id, dateString) > 0)
+  const completedCount = completedHabits.length
+  // Notes are saved on the check-in, so habits done only through timed entries don't get one
+  const notedHabits = completedHabits.filter(h => hasCompletion(h.id, dateString))
 
   // Handle habit toggle
   const handleToggle = (habitId: string) => {
@@ -47,13 +66,24 @@ export function DayModal({
     if (completed) onCelebrate()
   }
 
+  // Handle counter +/- (celebrate the first count of the day)
+  const handleAdjustCount = (habitId: string, delta: number) => {
+    const newValue = onAdjustCounter(habitId, dateString, delta)
+    if (delta > 0 && newValue === 1) onCelebrate()
+  }
+
   return (
     <div
       ref={backdropRef}
       onClick={handleBackdropClick}
       className="fixed inset-0 z-50 bg-black/80 flex items-end sm:items-center sm:justify-center"
     >
-      <div className="w-full max-h-[85vh] overflow-hidden bg-zinc-950 border-zinc-800 safe-area-bottom sm:max-w-md sm:rounded-xl sm:border rounded-t-xl border-t animate-in">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Day log"
+        data-habit-shortcuts
+        className="w-full max-h-[85vh] overflow-hidden bg-zinc-950 border-zinc-800 safe-area-bottom sm:max-w-md sm:rounded-xl sm:border rounded-t-xl border-t animate-in">
         {/* Drag handle (mobile only) */}
         <div className="sm:hidden mx-auto mt-3 h-1 w-12 rounded-full bg-zinc-800" />
 
@@ -83,7 +113,40 @@ export function DayModal({
             groups={groups}
             getIsSelected={(habitId) => getCompletionValue(habitId, dateString) > 0}
             onSelect={handleToggle}
+            getCount={(habitId) => getCompletionValue(habitId, dateString)}
+            onAdjustCount={handleAdjustCount}
           />
+
+          {/* Notes on the day's check-ins */}
+          {notedHabits.length > 0 && (
+            <div className="mt-5 space-y-3">
+              {notedHabits.map((habit) => (
+                <div key={habit.id}>
+                  <p className="text-xs text-zinc-500 mb-1.5">
+                    {habit.emoji && <span className="mr-1">{habit.emoji}</span>}
+                    {habit.name}
+                  </p>
+                  <NoteField
+                    value={getCompletionNote(habit.id, dateString)}
+                    onSave={(note) => onSetCompletionNote(habit.id, dateString, note)}
+                    rows={1}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Free-form journal for the day */}
+          <div className="mt-5">
+            <p className="text-xs text-zinc-500 mb-1.5">Day note</p>
+            <NoteField
+              key={dateString}
+              value={getDayNote(dateString)}
+              onSave={(text) => onSetDayNote(dateString, text)}
+              placeholder="How did today go?"
+              rows={3}
+            />
+          </div>
         </div>
       </div>
 
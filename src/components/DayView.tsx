@@ -2,10 +2,15 @@ import { useState, useMemo, useEffect, useCallback, useRef, useLayoutEffect } fr
 import { format } from 'date-fns'
 import { ResponsiveDialog } from './ResponsiveDialog'
 import { HabitChipList } from './HabitChipList'
-import type { Habit, HabitGroup, TimedEntry, HabitCompletion, ActiveTimer } from '../types'
+import { NoteField } from './NoteField'
+import { getDeviceTimeZone, getLogicalDateString, getLogicalDateTime, getMinutesIntoDay, getZonedDateTime } from '../utils/dates'
+import { DEFAULT_TIMER_MODES, getCompletedCycles, getTimerPhase } from '../utils/timers'
+import { requestNotificationPermission } from '../utils/reminders'
+import type { Habit, HabitGroup, TimedEntry, HabitCompletion, ActiveTimer, TimerMode } from '../types'
 
 interface DayViewProps {
   date: Date
+  dayStartHour: number // Grid starts here; earlier hours are the end of the day
   habits: Habit[]
   groups: HabitGroup[]
   timedEntries: TimedEntry[]
@@ -18,33 +23,36 @@ interface DayViewProps {
   onAddTimedEntry: (habitId: string, date: string, startTime: string, duration: number) => TimedEntry
   onUpdateTimedEntry: (id: string, updates: Partial<Omit<TimedEntry, 'id'>>) => void
   onDeleteTimedEntry: (id: string) => void
-  onStartTimer: (habitId: string, date: string, startTime: string, customStartTimestamp?: number) => ActiveTimer
+  onRemoveTimedEntry: (id: string) => void // Deletes without the undo toast, for an entry that lives on as a timer
+  onStartTimer: (habitId: string, date: string, startTime: string, customStartTimestamp?: number, mode?: TimerMode) => ActiveTimer
   onStopTimer: (timerId: string) => ActiveTimer | undefined
+  onCompleteTimerCycle: (timer: ActiveTimer, cycle: number) => void
   onToggleCompletion: (habitId: string, date: string) => void
+  onOpenDayLog: () => void
+  onOpenCalendar: () => void
   onCelebrate: () => void
   onOpenEditPanel: (mode?: 'list' | 'add-habit') => void
   onCloseEditPanel: () => void
   onShowAbout: () => void
 }
 
-// Grid configuration: 12 AM to 12 AM = 24 hours (3 columns of 8 hours each)
-const START_HOUR = 0
+// Grid configuration: 24 hours from the day start hour (3 columns of 8 hours each)
 const HOURS_PER_COLUMN = 8
 const COLUMNS = 3
 const SLOTS_PER_HOUR = 4
 const ROWS = HOURS_PER_COLUMN * SLOTS_PER_HOUR // 32
 
 // Convert column and row to time
-function slotToTime(col: number, row: number): { hour: number; minute: number } {
+function slotToTime(col: number, row: number, startHour: number): { hour: number; minute: number } {
   const hourOffset = Math.floor(row / SLOTS_PER_HOUR)
   const minuteOffset = (row % SLOTS_PER_HOUR) * 15
-  const hour = (START_HOUR + col * HOURS_PER_COLUMN + hourOffset) % 24
+  const hour = (startHour + col * HOURS_PER_COLUMN + hourOffset) % 24
   return { hour, minute: minuteOffset }
 }
 
 // Convert time to slot position
-function timeToSlot(hour: number, minute: number): { col: number; row: number } | null {
-  let hoursFromStart = hour - START_HOUR
+function timeToSlot(hour: number, minute: number, startHour: number): { col: number; row: number } | null {
+  let hoursFromStart = hour - startHour
   if (hoursFromStart < 0) hoursFromStart += 24
 
   const col = Math.floor(hoursFromStart / HOURS_PER_COLUMN)
@@ -90,6 +98,7 @@ function formatDuration(minutes: number): string {
 
 export function DayView({
   date,
+  dayStartHour,
   habits,
   groups,
   timedEntries,
@@ -102,9 +111,13 @@ export function DayView({
   onAddTimedEntry,
   onUpdateTimedEntry,
   onDeleteTimedEntry,
+  onRemoveTimedEntry,
   onStartTimer,
   onStopTimer,
+  onCompleteTimerCycle,
   onToggleCompletion: _onToggleCompletion,
+  onOpenDayLog,
+  onOpenCalendar,
   onCelebrate,
   onOpenEditPanel,
   onCloseEditPanel,
@@ -134,6 +147,8 @@ export function DayView({
   // Timer tick for re-rendering elapsed time
   const [timerTick, setTimerTick] = useState(0)
   const [showTimerHabitSelector, setShowTimerHabitSelector] = useState(false)
+  const [timerModeType, setTimerModeType] = useState<TimerMode['type'] | null>(null) // null counts up
+  const [timerLengths, setTimerLengths] = useState({ work: '', break: '', cycles: '' })
   const [showVisibilityDialog, setShowVisibilityDialog] = useState(false)
 
   // Current time (updates every minute for slot highlighting, every second for timers)
@@ -160,7 +175,7 @@ export function DayView({
       const newHabit = habits[habits.length - 1]
 
       const { startCol, startRow, endCol, endRow } = pendingSelection
-      const { hour, minute } = slotToTime(startCol, startRow)
+      const { hour, minute } = slotToTime(startCol, startRow, dayStartHour)
 
       // Calculate total slots across columns
       const startSlot = startCol * ROWS + startRow
@@ -181,13 +196,14 @@ export function DayView({
 
     // Update ref for next comparison
     prevHabitsCountRef.current = habits.length
-  }, [habits, waitingForHabit, pendingSelection, dateString, onAddTimedEntry, onCelebrate, onCloseEditPanel])
+  }, [habits, waitingForHabit, pendingSelection, dateString, dayStartHour, onAddTimedEntry, onCelebrate, onCloseEditPanel])
 
-  const isToday = format(now, 'yyyy-MM-dd') === dateString
+  // Late-night hours before the rollover still belong to the previous day
+  const isToday = getLogicalDateString(now, dayStartHour) === dateString
   const currentSlot = useMemo(() => {
     if (!isToday) return null
-    return timeToSlot(now.getHours(), now.getMinutes())
-  }, [isToday, now])
+    return timeToSlot(now.getHours(), now.getMinutes(), dayStartHour)
+  }, [isToday, now, dayStartHour])
 
   // Get entries for this day (filtered by visibility)
   const dayEntries = useMemo(() => {
@@ -206,6 +222,7 @@ export function DayView({
   }, [timedEntries, dateString, visibleHabitIds, habits, groups])
 
   // Compute entry layout info for continuous block rendering
+  // Entries sit at the wall-clock time they were logged, even if that was in another time zone
   // Each entry gets: column, startRow, rowSpan, and horizontal position based on overlaps
   // Supports cross-column entries (entries longer than 8 hours)
   const entryLayout = useMemo(() => {
@@ -219,7 +236,7 @@ export function DayView({
 
     dayEntries.forEach(entry => {
       const [h, m] = entry.startTime.split(':').map(Number)
-      const start = timeToSlot(h, m)
+      const start = timeToSlot(h, m, dayStartHour)
       if (!start) return
 
       const numSlots = Math.ceil(entry.duration / 15)
@@ -294,9 +311,7 @@ export function DayView({
           const bId = bKey.split(':')[0]
           const aEntry = dayEntries.find(e => e.id === aId)!
           const bEntry = dayEntries.find(e => e.id === bId)!
-          const [ah, am] = aEntry.startTime.split(':').map(Number)
-          const [bh, bm] = bEntry.startTime.split(':').map(Number)
-          return ah * 60 + am - (bh * 60 + bm)
+          return getMinutesIntoDay(aEntry.startTime, dayStartHour) - getMinutesIntoDay(bEntry.startTime, dayStartHour)
         })
 
         // Assign positions to segments that haven't been positioned yet
@@ -332,7 +347,7 @@ export function DayView({
         maxOverlap: segmentMaxOverlap.get(segmentKey) || 1
       }
     })
-  }, [dayEntries])
+  }, [dayEntries, dayStartHour])
 
   // Convert col/row to absolute slot index (0 to COLUMNS*ROWS-1)
   const toAbsoluteSlot = useCallback((col: number, row: number) => col * ROWS + row, [])
@@ -354,8 +369,12 @@ export function DayView({
     }> = []
 
     activeTimers.forEach(timer => {
-      const [h, m] = timer.startTime.split(':').map(Number)
-      const startSlotPos = timeToSlot(h, m)
+      // Place by when it actually started, in this device's zone (it may have been started elsewhere)
+      // A timer still running from an earlier day fills the grid from the top
+      const startedAt = new Date(timer.startTimestamp)
+      const startSlotPos = getLogicalDateString(startedAt, dayStartHour) < dateString
+        ? { col: 0, row: 0 }
+        : timeToSlot(startedAt.getHours(), startedAt.getMinutes(), dayStartHour)
       if (!startSlotPos) return
 
       // Calculate current duration in slots (from start to now)
@@ -392,7 +411,7 @@ export function DayView({
     })
 
     return layouts
-  }, [activeTimers, currentSlot, toAbsoluteSlot, timerTick]) // timerTick ensures updates
+  }, [activeTimers, currentSlot, dateString, dayStartHour, toAbsoluteSlot, timerTick]) // timerTick ensures updates
 
   // Get selected slots during drag (all slots in range across columns)
   const selectedSlots = useMemo(() => {
@@ -526,7 +545,7 @@ export function DayView({
     if (!pendingSelection) return
 
     const { startCol, startRow, endCol, endRow } = pendingSelection
-    const { hour, minute } = slotToTime(startCol, startRow)
+    const { hour, minute } = slotToTime(startCol, startRow, dayStartHour)
 
     // Calculate total slots across columns
     const startSlot = toAbsoluteSlot(startCol, startRow)
@@ -539,16 +558,40 @@ export function DayView({
 
     setShowHabitSelector(false)
     setPendingSelection(null)
-  }, [pendingSelection, dateString, onAddTimedEntry, onCelebrate, toAbsoluteSlot])
+  }, [pendingSelection, dateString, dayStartHour, onAddTimedEntry, onCelebrate, toAbsoluteSlot])
 
   // Start timer with selected habit
   const handleStartTimer = useCallback((habitId: string) => {
     if (!currentSlot) return
 
-    const { hour, minute } = slotToTime(currentSlot.col, currentSlot.row)
-    onStartTimer(habitId, dateString, formatTimeString(hour, minute))
+    const { hour, minute } = slotToTime(currentSlot.col, currentSlot.row, dayStartHour)
+    let mode: TimerMode | undefined
+    if (timerModeType) {
+      const defaults = DEFAULT_TIMER_MODES[timerModeType]
+      const work = parseInt(timerLengths.work)
+      const breakLength = parseInt(timerLengths.break)
+      const cycles = parseInt(timerLengths.cycles)
+      const isPomodoro = timerModeType === 'pomodoro'
+      mode = {
+        type: timerModeType,
+        workMinutes: work > 0 ? work : defaults.workMinutes,
+        breakMinutes: isPomodoro && breakLength > 0 ? breakLength : defaults.breakMinutes,
+        cycles: isPomodoro && cycles > 0 ? cycles : defaults.cycles,
+      }
+      // The end of each period is also announced with a notification
+      requestNotificationPermission()
+    }
+    onStartTimer(habitId, dateString, formatTimeString(hour, minute), undefined, mode)
     setShowTimerHabitSelector(false)
-  }, [currentSlot, dateString, onStartTimer])
+  }, [currentSlot, dateString, dayStartHour, timerModeType, timerLengths, onStartTimer])
+
+  const handleSelectTimerMode = useCallback((type: TimerMode['type'] | null) => {
+    setTimerModeType(type)
+    if (type) {
+      const defaults = DEFAULT_TIMER_MODES[type]
+      setTimerLengths({ work: String(defaults.workMinutes), break: String(defaults.breakMinutes), cycles: String(defaults.cycles) })
+    }
+  }, [])
 
   // Convert an existing entry to a live timer (keep running from its start time)
   const handleKeepRunning = useCallback((entryId: string) => {
@@ -556,30 +599,46 @@ export function DayView({
     if (!entry) return
 
     // Calculate timestamp for the entry's start time (to continue timer from original start)
-    const [h, m] = entry.startTime.split(':').map(Number)
-    const startDate = new Date()
-    startDate.setHours(h, m, 0, 0)
-    const startTimestamp = startDate.getTime()
+    const startTimestamp = getLogicalDateTime(dateString, entry.startTime, dayStartHour, entry.timeZone).getTime()
 
     // Delete the fixed entry and start the timer from original start time
-    onDeleteTimedEntry(entryId)
+    onRemoveTimedEntry(entryId)
     onStartTimer(entry.habitId, dateString, entry.startTime, startTimestamp)
     setEditingEntry(null)
-  }, [dayEntries, dateString, onDeleteTimedEntry, onStartTimer])
+  }, [dayEntries, dateString, dayStartHour, onRemoveTimedEntry, onStartTimer])
 
   // Stop a specific timer and save entry
   const handleStopTimer = useCallback((timerId: string) => {
     const timer = activeTimers.find(t => t.id === timerId)
     if (!timer) return
 
+    // Countdown / Pomodoro: finished work periods are logged as they end (log any not yet logged),
+    // so only the unfinished work period is added here, to the minute
+    const phase = getTimerPhase(timer)
+    if (phase) {
+      for (let cycle = 0; cycle < getCompletedCycles(timer); cycle++) {
+        onCompleteTimerCycle(timer, cycle)
+      }
+      if (phase.phase === 'work') {
+        const phaseStartedAt = new Date(phase.phaseStart)
+        const durationMinutes = Math.max(1, Math.ceil((Date.now() - phase.phaseStart) / 60000))
+        onAddTimedEntry(timer.habitId, getLogicalDateString(phaseStartedAt, dayStartHour), getZonedDateTime(phaseStartedAt).time, durationMinutes)
+      }
+      onCelebrate()
+      onStopTimer(timerId)
+      return
+    }
+
     const elapsedSeconds = getElapsedSeconds(timer.startTimestamp)
     // Round up to nearest 15 minutes, minimum 15
     const durationMinutes = Math.max(15, Math.ceil(elapsedSeconds / 60 / 15) * 15)
 
-    onAddTimedEntry(timer.habitId, dateString, timer.startTime, durationMinutes)
+    // The entry is logged in this device's zone from the instant the timer started
+    const startedAt = new Date(timer.startTimestamp)
+    onAddTimedEntry(timer.habitId, getLogicalDateString(startedAt, dayStartHour), getZonedDateTime(startedAt).time, durationMinutes)
     onCelebrate()
     onStopTimer(timerId)
-  }, [activeTimers, getElapsedSeconds, dateString, onAddTimedEntry, onCelebrate, onStopTimer])
+  }, [activeTimers, getElapsedSeconds, dayStartHour, onAddTimedEntry, onCelebrate, onStopTimer, onCompleteTimerCycle])
 
   // Get timer info helpers
   const getTimerHabit = useCallback((timer: typeof activeTimers[0]) => {
@@ -657,6 +716,7 @@ export function DayView({
         const habit = getTimerHabit(timer)
         const color = getTimerColor(timer)
         const elapsed = getElapsedSeconds(timer.startTimestamp)
+        const phase = getTimerPhase(timer)
         if (!habit) return null
         return (
           <div
@@ -674,10 +734,16 @@ export function DayView({
             </div>
             <div className="flex-1 min-w-0">
               <p className="text-sm font-medium text-zinc-100 truncate">{habit.name}</p>
-              <p className="text-xs text-zinc-500">Recording...</p>
+              <p className="text-xs text-zinc-500">
+                {!phase ? 'Recording...'
+                  : phase.phase === 'break' ? `Break ${phase.cycle + 1}`
+                  : phase.phase === 'done' ? 'Finished'
+                  : timer.mode?.type === 'pomodoro' ? `Pomodoro ${phase.cycle + 1} of ${timer.mode.cycles}` : 'Countdown'}
+              </p>
             </div>
+            {/* Countdowns and Pomodoros show the time left in the current period */}
             <span className="font-mono text-xl text-zinc-100 tabular-nums">
-              {formatElapsed(elapsed)}
+              {formatElapsed(phase ? Math.max(0, Math.ceil((phase.phaseEnd - Date.now()) / 1000)) : elapsed)}
             </span>
             <button
               onClick={() => handleStopTimer(timer.id)}
@@ -713,7 +779,7 @@ export function DayView({
                 const isHourStart = row % SLOTS_PER_HOUR === 0
                 const isCurrent = currentSlot?.col === col && currentSlot?.row === row
                 const isCurrentHour = isHourStart && currentSlot?.col === col && Math.floor(currentSlot?.row / SLOTS_PER_HOUR) === Math.floor(row / SLOTS_PER_HOUR)
-                const { hour } = slotToTime(col, row)
+                const { hour } = slotToTime(col, row, dayStartHour)
 
                 // Handle single click on slot to add entry
                 const handleSlotClick = () => {
@@ -951,6 +1017,32 @@ export function DayView({
                 ) : null}
               </button>
 
+              {/* Right: Day log (check-offs and counters) */}
+              {habits.length > 0 && (
+                <button
+                  onClick={onOpenDayLog}
+                  className="flex h-7 w-7 items-center justify-center rounded-lg border border-zinc-700 transition-colors flex-shrink-0 text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800"
+                  title="Log day"
+                >
+                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M9 12.75L11.25 15 15 9.75M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                </button>
+              )}
+
+              {/* Right: Calendar (.ics) import / export */}
+              {habits.length > 0 && (
+                <button
+                  onClick={onOpenCalendar}
+                  className="flex h-7 w-7 items-center justify-center rounded-lg border border-zinc-700 transition-colors flex-shrink-0 text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800"
+                  title="Calendar"
+                >
+                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M6.75 3v2.25M17.25 3v2.25M3 18.75V7.5a2.25 2.25 0 012.25-2.25h13.5A2.25 2.25 0 0121 7.5v11.25m-18 0A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75m-18 0v-7.5A2.25 2.25 0 015.25 9h13.5A2.25 2.25 0 0121 11.25v7.5" />
+                  </svg>
+                </button>
+              )}
+
               {/* Right: Filter button */}
               {habits.length > 0 && (
                 <button
@@ -1000,6 +1092,55 @@ export function DayView({
         title="Start Timer"
       >
         <div className="px-4 py-4">
+          {/* Mode: count up, or count down one period or alternating work and break periods */}
+          <div className="flex rounded-lg bg-zinc-900 p-1 mb-3">
+            {([null, 'countdown', 'pomodoro'] as const).map((type) => (
+              <button
+                key={type ?? 'stopwatch'}
+                onClick={() => handleSelectTimerMode(type)}
+                className={`flex-1 py-1.5 rounded-md text-sm transition-colors ${
+                  timerModeType === type ? 'bg-zinc-700 text-zinc-100' : 'text-zinc-400 hover:text-zinc-200'
+                }`}
+              >
+                {type === null ? 'Stopwatch' : type === 'countdown' ? 'Countdown' : 'Pomodoro'}
+              </button>
+            ))}
+          </div>
+          {timerModeType && (
+            <div className="flex flex-wrap items-center gap-2 mb-3 text-xs text-zinc-500">
+              <input
+                type="number"
+                min={1}
+                inputMode="numeric"
+                value={timerLengths.work}
+                onChange={(e) => setTimerLengths(prev => ({ ...prev, work: e.target.value }))}
+                className="w-16 rounded-lg border border-zinc-800 bg-zinc-900 px-3 py-1.5 text-xs text-zinc-100 outline-none focus:border-zinc-600"
+              />
+              <span>{timerModeType === 'pomodoro' ? 'min work' : 'min'}</span>
+              {timerModeType === 'pomodoro' && (
+                <>
+                  <input
+                    type="number"
+                    min={1}
+                    inputMode="numeric"
+                    value={timerLengths.break}
+                    onChange={(e) => setTimerLengths(prev => ({ ...prev, break: e.target.value }))}
+                    className="w-16 rounded-lg border border-zinc-800 bg-zinc-900 px-3 py-1.5 text-xs text-zinc-100 outline-none focus:border-zinc-600"
+                  />
+                  <span>min break</span>
+                  <input
+                    type="number"
+                    min={1}
+                    inputMode="numeric"
+                    value={timerLengths.cycles}
+                    onChange={(e) => setTimerLengths(prev => ({ ...prev, cycles: e.target.value }))}
+                    className="w-16 rounded-lg border border-zinc-800 bg-zinc-900 px-3 py-1.5 text-xs text-zinc-100 outline-none focus:border-zinc-600"
+                  />
+                  <span>rounds</span>
+                </>
+              )}
+            </div>
+          )}
           {habits.length > 0 && (
             <p className="text-xs text-zinc-500 mb-3">Select a habit to start tracking time</p>
           )}
@@ -1029,10 +1170,9 @@ export function DayView({
 
             if (!entry || !habit) return null
 
-            // Calculate times
-            const [startH, startM] = entry.startTime.split(':').map(Number)
-            const startMinutes = startH * 60 + startM
-            const endMinutes = startMinutes + entry.duration
+            // Calculate times (minutes from the start of the logical day)
+            const startMinutes = getMinutesIntoDay(entry.startTime, dayStartHour)
+            const endMinutes = dayStartHour * 60 + startMinutes + entry.duration
             const endH = Math.floor(endMinutes / 60) % 24
             const endM = endMinutes % 60
 
@@ -1042,7 +1182,7 @@ export function DayView({
             const adjustStartTime = (delta: number) => {
               const newStartMinutes = Math.max(0, Math.min(24 * 60 - 15, startMinutes + delta))
               const newDuration = Math.max(15, entry.duration - delta)
-              const newH = Math.floor(newStartMinutes / 60)
+              const newH = (dayStartHour + Math.floor(newStartMinutes / 60)) % 24
               const newM = newStartMinutes % 60
               onUpdateTimedEntry(entry.id, {
                 startTime: formatTime(newH, newM),
@@ -1050,8 +1190,10 @@ export function DayView({
               })
             }
 
+            // An entry ends by the end of its day (later time is logged on the next day)
+            const maxDuration = 24 * 60 - startMinutes
             const adjustEndTime = (delta: number) => {
-              const newDuration = Math.max(15, entry.duration + delta)
+              const newDuration = Math.max(15, Math.min(maxDuration, entry.duration + delta))
               onUpdateTimedEntry(entry.id, { duration: newDuration })
             }
 
@@ -1119,20 +1261,34 @@ export function DayView({
                     </span>
                     <button
                       onClick={() => adjustEndTime(15)}
-                      className="w-10 h-10 rounded-lg bg-zinc-800 text-zinc-300 text-lg font-medium hover:bg-zinc-700 transition-colors"
+                      disabled={entry.duration >= maxDuration}
+                      className="w-10 h-10 rounded-lg bg-zinc-800 text-zinc-300 text-lg font-medium hover:bg-zinc-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
                     >
                       +
                     </button>
                   </div>
                 </div>
 
-                {/* Duration display */}
+                {/* Duration display (plus the zone, for entries logged while elsewhere) */}
                 <div className="text-center text-xs text-zinc-500 mb-4 py-2 bg-zinc-800/50 rounded-lg">
                   {formatDuration(entry.duration)}
+                  {entry.timeZone && entry.timeZone !== getDeviceTimeZone() && (
+                    <span> · {entry.timeZone.replace(/_/g, ' ')} time</span>
+                  )}
+                </div>
+
+                {/* Note */}
+                <div className="mb-4">
+                  <p className="text-xs text-zinc-500 mb-2">Note</p>
+                  <NoteField
+                    key={entry.id}
+                    value={entry.note || ''}
+                    onSave={(text) => onUpdateTimedEntry(entry.id, { note: text.trim() || undefined })}
+                  />
                 </div>
 
                 {/* Keep running option - only for past entries on today */}
-                {isToday && startMinutes < (now.getHours() * 60 + now.getMinutes()) && (
+                {isToday && startMinutes < getMinutesIntoDay(format(now, 'HH:mm'), dayStartHour) && (
                   <button
                     onClick={() => handleKeepRunning(entry.id)}
                     className="w-full mb-3 py-2.5 px-4 rounded-lg bg-blue-600/20 text-blue-400 text-sm font-medium hover:bg-blue-600/30 transition-colors flex items-center justify-center gap-2"
@@ -1,13 +1,17 @@
 import { useEffect, useState, useMemo } from 'react'
+import { format } from 'date-fns'
 import { EmojiPicker } from './EmojiPicker'
 import { ResponsiveDialog } from './ResponsiveDialog'
 import { UNGROUPED_GROUP_ID } from '../hooks/useHabits'
-import type { Habit, HabitGroup } from '../types'
+import { WEEKDAY_INITIALS, getStreakPeriod } from '../utils/schedule'
+import { requestNotificationPermission } from '../utils/reminders'
+import type { Habit, HabitGoal, HabitGroup, HabitSchedule, HabitType } from '../types'
 
 interface EditPanelProps {
   isOpen: boolean
   onClose: () => void
   habits: Habit[]
+  archivedHabits: Habit[]
   groups: HabitGroup[]
   getStreak: (habitId: string) => number
   onAddHabit: (options: {
@@ -15,12 +19,24 @@ interface EditPanelProps {
     groupId?: string
     color?: string
     emoji?: string
+    type?: HabitType
+    unit?: string
+    goal?: HabitGoal
+    schedule?: HabitSchedule
+    reminders?: string[]
   }) => Habit
   onUpdateHabit: (id: string, updates: {
     name?: string
     groupId?: string
     emoji?: string
+    type?: HabitType
+    unit?: string
+    goal?: HabitGoal
+    schedule?: HabitSchedule
+    reminders?: string[]
   }) => void
+  onArchiveHabit: (habitId: string) => void
+  onRestoreHabit: (habitId: string) => void
   onDeleteHabit: (habitId: string) => void
   onAddGroup: (name: string) => HabitGroup
   onDeleteGroup: (groupId: string) => void
@@ -33,16 +49,64 @@ interface HabitEditState {
   name: string
   emoji: string
   groupId: string | undefined
+  type: HabitType
+  unit: string
+  goalPeriod: 'none' | HabitGoal['period']
+  goalTarget: string
+  goalUnit: HabitGoal['unit']
+  scheduleType: 'daily' | HabitSchedule['type']
+  scheduleDays: number[]
+  scheduleEvery: string
+  scheduleTimes: string
+  scheduleStartDate: string | undefined // Kept so editing an interval doesn't shift it
+  reminders: string[]
+}
+
+// Build the goal from the form fields (undefined when unset or invalid)
+function getGoalFromEdit(edit: HabitEditState): HabitGoal | undefined {
+  const target = parseInt(edit.goalTarget, 10)
+  if (edit.goalPeriod === 'none' || !(target > 0)) return undefined
+  return { target, period: edit.goalPeriod, unit: edit.goalUnit }
+}
+
+// Build the schedule from the form fields (undefined means every day)
+function getScheduleFromEdit(edit: HabitEditState): HabitSchedule | undefined {
+  switch (edit.scheduleType) {
+    case 'weekdays':
+      if (edit.scheduleDays.length === 0 || edit.scheduleDays.length === 7) return undefined
+      return { type: 'weekdays', days: [...edit.scheduleDays].sort() }
+    case 'interval': {
+      const every = parseInt(edit.scheduleEvery, 10)
+      if (!(every > 1)) return undefined
+      return { type: 'interval', every, startDate: edit.scheduleStartDate || format(new Date(), 'yyyy-MM-dd') }
+    }
+    case 'timesPerWeek': {
+      const times = parseInt(edit.scheduleTimes, 10)
+      if (!(times >= 1 && times <= 7)) return undefined
+      return { type: 'timesPerWeek', times }
+    }
+    default:
+      return undefined
+  }
+}
+
+// Sorted, de-duplicated reminder times (undefined when there are none)
+function getRemindersFromEdit(edit: HabitEditState): string[] | undefined {
+  const times = Array.from(new Set(edit.reminders.filter(Boolean))).sort()
+  return times.length > 0 ? times : undefined
 }
 
 export function EditPanel({
   isOpen,
   onClose,
   habits,
+  archivedHabits,
   groups,
   getStreak,
   onAddHabit,
   onUpdateHabit,
+  onArchiveHabit,
+  onRestoreHabit,
   onDeleteHabit,
   onAddGroup,
   onDeleteGroup,
@@ -59,6 +123,17 @@ export function EditPanel({
     name: '',
     emoji: '',
     groupId: undefined,
+    type: 'binary',
+    unit: '',
+    goalPeriod: 'none',
+    goalTarget: '',
+    goalUnit: 'count',
+    scheduleType: 'daily',
+    scheduleDays: [],
+    scheduleEvery: '2',
+    scheduleTimes: '3',
+    scheduleStartDate: undefined,
+    reminders: [],
   })
 
   // Group editing state
@@ -79,11 +154,11 @@ export function EditPanel({
     }))
   }, [habits, groups])
 
-  // Get the original habit for comparison
+  // Get the original habit for comparison (archived habits can be edited too)
   const originalHabit = useMemo(() => {
     if (!selectedHabitId) return null
-    return habits.find(h => h.id === selectedHabitId) || null
-  }, [selectedHabitId, habits])
+    return habits.find(h => h.id === selectedHabitId) || archivedHabits.find(h => h.id === selectedHabitId) || null
+  }, [selectedHabitId, habits, archivedHabits])
 
   // Check if there are unsaved changes
   const hasChanges = useMemo(() => {
@@ -98,7 +173,12 @@ export function EditPanel({
       const nameChanged = habitEdit.name !== originalHabit.name
       const emojiChanged = habitEdit.emoji !== (originalHabit.emoji || '')
       const groupChanged = habitEdit.groupId !== originalHabit.groupId
-      return nameChanged || emojiChanged || groupChanged || hasNewGroupChange
+      const typeChanged = habitEdit.type !== (originalHabit.type || 'binary')
+      const unitChanged = habitEdit.unit !== (originalHabit.unit || '')
+      const goalChanged = JSON.stringify(getGoalFromEdit(habitEdit)) !== JSON.stringify(originalHabit.goal)
+      const scheduleChanged = JSON.stringify(getScheduleFromEdit(habitEdit)) !== JSON.stringify(originalHabit.schedule)
+      const remindersChanged = JSON.stringify(getRemindersFromEdit(habitEdit)) !== JSON.stringify(originalHabit.reminders)
+      return nameChanged || emojiChanged || groupChanged || typeChanged || unitChanged || goalChanged || scheduleChanged || remindersChanged || hasNewGroupChange
     }
     if (mode === 'edit-group' && selectedGroupId) {
       const group = groups.find(g => g.id === selectedGroupId)
@@ -122,6 +202,17 @@ export function EditPanel({
         name: '',
         emoji: '',
         groupId: UNGROUPED_GROUP_ID,
+        type: 'binary',
+        unit: '',
+        goalPeriod: 'none',
+        goalTarget: '',
+        goalUnit: 'count',
+        scheduleType: 'daily',
+        scheduleDays: [],
+        scheduleEvery: '2',
+        scheduleTimes: '3',
+        scheduleStartDate: undefined,
+        reminders: [],
       })
       setMode('add-habit')
     }
@@ -133,6 +224,17 @@ export function EditPanel({
       name: habit.name,
       emoji: habit.emoji || '',
       groupId: habit.groupId,
+      type: habit.type || 'binary',
+      unit: habit.unit || '',
+      goalPeriod: habit.goal?.period || 'none',
+      goalTarget: habit.goal ? String(habit.goal.target) : '',
+      goalUnit: habit.goal?.unit || 'count',
+      scheduleType: habit.schedule?.type || 'daily',
+      scheduleDays: habit.schedule?.type === 'weekdays' ? habit.schedule.days : [],
+      scheduleEvery: habit.schedule?.type === 'interval' ? String(habit.schedule.every) : '2',
+      scheduleTimes: habit.schedule?.type === 'timesPerWeek' ? String(habit.schedule.times) : '3',
+      scheduleStartDate: habit.schedule?.type === 'interval' ? habit.schedule.startDate : undefined,
+      reminders: habit.reminders || [],
     })
     setMode('edit-habit')
   }
@@ -143,6 +245,17 @@ export function EditPanel({
       name: '',
       emoji: '',
       groupId: UNGROUPED_GROUP_ID,
+      type: 'binary',
+      unit: '',
+      goalPeriod: 'none',
+      goalTarget: '',
+      goalUnit: 'count',
+      scheduleType: 'daily',
+      scheduleDays: [],
+      scheduleEvery: '2',
+      scheduleTimes: '3',
+      scheduleStartDate: undefined,
+      reminders: [],
     })
     setMode('add-habit')
   }
@@ -168,6 +281,11 @@ export function EditPanel({
         name: habitEdit.name.trim(),
         emoji: habitEdit.emoji || undefined,
         groupId: finalGroupId,
+        type: habitEdit.type,
+        unit: habitEdit.type === 'counter' ? habitEdit.unit.trim() || undefined : undefined,
+        goal: getGoalFromEdit(habitEdit),
+        schedule: getScheduleFromEdit(habitEdit),
+        reminders: getRemindersFromEdit(habitEdit),
       })
       setMode('list')
       setShowNewGroup(false)
@@ -184,6 +302,11 @@ export function EditPanel({
         name: habitEdit.name.trim(),
         emoji: habitEdit.emoji || undefined,
         groupId: finalGroupId,
+        type: habitEdit.type,
+        unit: habitEdit.type === 'counter' ? habitEdit.unit.trim() || undefined : undefined,
+        goal: getGoalFromEdit(habitEdit),
+        schedule: getScheduleFromEdit(habitEdit),
+        reminders: getRemindersFromEdit(habitEdit),
       })
       setMode('list')
       setShowNewGroup(false)
@@ -198,6 +321,20 @@ export function EditPanel({
     }
   }
 
+  const handleArchiveHabit = () => {
+    if (selectedHabitId) {
+      onArchiveHabit(selectedHabitId)
+      setMode('list')
+    }
+  }
+
+  const handleRestoreHabit = () => {
+    if (selectedHabitId) {
+      onRestoreHabit(selectedHabitId)
+      setMode('list')
+    }
+  }
+
   const handleDeleteHabit = () => {
     if (selectedHabitId) {
       onDeleteHabit(selectedHabitId)
@@ -322,10 +459,195 @@ export function EditPanel({
         )}
       </div>
 
+      {/* Type: check-off or counter */}
+      <div>
+        <label className="block text-xs text-zinc-500 mb-1.5">Type</label>
+        <div className="flex items-center gap-2">
+          {(['binary', 'counter'] as HabitType[]).map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => setHabitEdit(prev => ({ ...prev, type }))}
+              className={`rounded-lg border px-3 py-1.5 text-xs transition-colors ${
+                habitEdit.type === type
+                  ? 'border-zinc-600 bg-zinc-800 text-zinc-100'
+                  : 'border-zinc-800 text-zinc-500 hover:border-zinc-700'
+              }`}
+            >
+              {type === 'binary' ? 'Check off' : 'Counter'}
+            </button>
+          ))}
+          {habitEdit.type === 'counter' && (
+            <input
+              type="text"
+              value={habitEdit.unit}
+              onChange={(e) => setHabitEdit(prev => ({ ...prev, unit: e.target.value }))}
+              placeholder="Unit (e.g., glasses)"
+              className="flex-1 min-w-0 rounded-lg border border-zinc-800 bg-zinc-900 px-3 py-1.5 text-xs text-zinc-100 placeholder-zinc-600 outline-none focus:border-zinc-600"
+            />
+          )}
+        </div>
+      </div>
+
+      {/* Goal: optional daily or weekly target */}
+      <div>
+        <label className="block text-xs text-zinc-500 mb-1.5">Goal</label>
+        <div className="flex flex-wrap items-center gap-2">
+          {(['none', 'day', 'week'] as const).map((period) => (
+            <button
+              key={period}
+              type="button"
+              onClick={() => setHabitEdit(prev => ({ ...prev, goalPeriod: period }))}
+              className={`rounded-lg border px-3 py-1.5 text-xs transition-colors ${
+                habitEdit.goalPeriod === period
+                  ? 'border-zinc-600 bg-zinc-800 text-zinc-100'
+                  : 'border-zinc-800 text-zinc-500 hover:border-zinc-700'
+              }`}
+            >
+              {period === 'none' ? 'None' : period === 'day' ? 'Daily' : 'Weekly'}
+            </button>
+          ))}
+        </div>
+        {habitEdit.goalPeriod !== 'none' && (
+          <div className="flex items-center gap-2 mt-2">
+            <input
+              type="number"
+              min={1}
+              inputMode="numeric"
+              value={habitEdit.goalTarget}
+              onChange={(e) => setHabitEdit(prev => ({ ...prev, goalTarget: e.target.value }))}
+              placeholder="Target"
+              className="w-20 rounded-lg border border-zinc-800 bg-zinc-900 px-3 py-1.5 text-xs text-zinc-100 placeholder-zinc-600 outline-none focus:border-zinc-600"
+            />
+            {(['count', 'minutes'] as const).map((unit) => (
+              <button
+                key={unit}
+                type="button"
+                onClick={() => setHabitEdit(prev => ({ ...prev, goalUnit: unit }))}
+                className={`rounded-lg border px-3 py-1.5 text-xs transition-colors ${
+                  habitEdit.goalUnit === unit
+                    ? 'border-zinc-600 bg-zinc-800 text-zinc-100'
+                    : 'border-zinc-800 text-zinc-500 hover:border-zinc-700'
+                }`}
+              >
+                {unit === 'minutes'
+                  ? 'minutes'
+                  : habitEdit.type === 'counter' && habitEdit.unit.trim() ? habitEdit.unit.trim() : 'times'}
+              </button>
+            ))}
+            <span className="text-xs text-zinc-600">per {habitEdit.goalPeriod}</span>
+          </div>
+        )}
+      </div>
+
+      {/* Schedule: days the habit is expected */}
+      <div>
+        <label className="block text-xs text-zinc-500 mb-1.5">Schedule</label>
+        <div className="flex flex-wrap items-center gap-2">
+          {(['daily', 'weekdays', 'interval', 'timesPerWeek'] as const).map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => setHabitEdit(prev => ({ ...prev, scheduleType: type }))}
+              className={`rounded-lg border px-3 py-1.5 text-xs transition-colors ${
+                habitEdit.scheduleType === type
+                  ? 'border-zinc-600 bg-zinc-800 text-zinc-100'
+                  : 'border-zinc-800 text-zinc-500 hover:border-zinc-700'
+              }`}
+            >
+              {type === 'daily' ? 'Every day' : type === 'weekdays' ? 'Weekdays' : type === 'interval' ? 'Every N days' : 'Times per week'}
+            </button>
+          ))}
+        </div>
+        {habitEdit.scheduleType === 'weekdays' && (
+          <div className="flex items-center gap-1.5 mt-2">
+            {WEEKDAY_INITIALS.map((initial, day) => {
+              const isSelected = habitEdit.scheduleDays.includes(day)
+              return (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => setHabitEdit(prev => ({
+                    ...prev,
+                    scheduleDays: isSelected
+                      ? prev.scheduleDays.filter(d => d !== day)
+                      : [...prev.scheduleDays, day],
+                  }))}
+                  className={`h-7 w-7 rounded-full border text-xs transition-colors ${
+                    isSelected
+                      ? 'border-zinc-500 bg-zinc-700 text-zinc-100'
+                      : 'border-zinc-800 text-zinc-500 hover:border-zinc-700'
+                  }`}
+                >
+                  {initial}
+                </button>
+              )
+            })}
+          </div>
+        )}
+        {(habitEdit.scheduleType === 'interval' || habitEdit.scheduleType === 'timesPerWeek') && (
+          <div className="flex items-center gap-2 mt-2">
+            {habitEdit.scheduleType === 'interval' && <span className="text-xs text-zinc-600">Every</span>}
+            <input
+              type="number"
+              min={habitEdit.scheduleType === 'interval' ? 2 : 1}
+              max={habitEdit.scheduleType === 'interval' ? undefined : 7}
+              inputMode="numeric"
+              value={habitEdit.scheduleType === 'interval' ? habitEdit.scheduleEvery : habitEdit.scheduleTimes}
+              onChange={(e) => setHabitEdit(prev => prev.scheduleType === 'interval'
+                ? { ...prev, scheduleEvery: e.target.value }
+                : { ...prev, scheduleTimes: e.target.value }
+              )}
+              className="w-16 rounded-lg border border-zinc-800 bg-zinc-900 px-3 py-1.5 text-xs text-zinc-100 outline-none focus:border-zinc-600"
+            />
+            <span className="text-xs text-zinc-600">{habitEdit.scheduleType === 'interval' ? 'days' : 'times per week'}</span>
+          </div>
+        )}
+      </div>
+
+      {/* Reminders: notification times on scheduled days */}
+      <div>
+        <label className="block text-xs text-zinc-500 mb-1.5">Reminders</label>
+        <div className="flex flex-wrap items-center gap-2">
+          {habitEdit.reminders.map((time, index) => (
+            <div key={index} className="flex items-center rounded-lg border border-zinc-800 bg-zinc-900">
+              <input
+                type="time"
+                value={time}
+                onChange={(e) => setHabitEdit(prev => ({
+                  ...prev,
+                  reminders: prev.reminders.map((t, i) => (i === index ? e.target.value : t)),
+                }))}
+                className="bg-transparent pl-3 py-1.5 text-xs text-zinc-100 outline-none [color-scheme:dark]"
+              />
+              <button
+                type="button"
+                onClick={() => setHabitEdit(prev => ({ ...prev, reminders: prev.reminders.filter((_, i) => i !== index) }))}
+                className="px-2 text-zinc-500 hover:text-zinc-300 transition-colors"
+                title="Remove reminder"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => {
+              // Ask while we still have the user's click - browsers block prompts without one
+              requestNotificationPermission()
+              setHabitEdit(prev => ({ ...prev, reminders: [...prev.reminders, '09:00'] }))
+            }}
+            className="rounded-lg border border-dashed border-zinc-700 px-3 py-1.5 text-xs text-zinc-500 hover:border-zinc-600 hover:text-zinc-300 transition-colors"
+          >
+            + Add reminder
+          </button>
+        </div>
+      </div>
+
       {/* Streak info (edit mode only) */}
       {mode === 'edit-habit' && originalHabit && getStreak(originalHabit.id) > 0 && (
         <div className="text-xs text-zinc-500 text-center py-2">
-          Current streak: {getStreak(originalHabit.id)} days
+          Current streak: {getStreak(originalHabit.id)} {getStreakPeriod(originalHabit) === 'week' ? 'weeks' : 'days'}
         </div>
       )}
     </div>
@@ -394,6 +716,35 @@ export function EditPanel({
               </div>
             )}
 
+            {/* Archived habits - hidden everywhere else, restorable here */}
+            {archivedHabits.length > 0 && (
+              <div className="mt-5 pt-4 border-t border-zinc-800">
+                <label className="block text-xs text-zinc-500 mb-2">Archived</label>
+                <div className="flex items-center gap-2 flex-wrap">
+                  {archivedHabits.map((habit) => (
+                    <div
+                      key={habit.id}
+                      className="flex items-center rounded-lg text-xs bg-zinc-900/50 text-zinc-500"
+                    >
+                      <button
+                        onClick={() => startEditingHabit(habit)}
+                        className="flex items-center gap-1.5 pl-2.5 pr-1.5 py-1.5 hover:text-zinc-300 transition-colors"
+                      >
+                        {habit.emoji && <span className="opacity-60">{habit.emoji}</span>}
+                        {habit.name}
+                      </button>
+                      <button
+                        onClick={() => onRestoreHabit(habit.id)}
+                        className="pl-1.5 pr-2.5 py-1.5 text-zinc-400 hover:text-zinc-100 transition-colors"
+                      >
+                        Restore
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Add button at bottom */}
             <button
               onClick={startAddingHabit}
@@ -478,6 +829,14 @@ export function EditPanel({
                   Delete
                 </button>
               )}
+              {mode === 'edit-habit' && originalHabit && (
+                <button
+                  onClick={originalHabit.archived ? handleRestoreHabit : handleArchiveHabit}
+                  className="px-4 py-2 text-xs text-zinc-500 hover:text-zinc-300 hover:bg-zinc-900 rounded-lg transition-colors"
+                >
+                  {originalHabit.archived ? 'Restore' : 'Archive'}
+                </button>
+              )}
               <div className="flex-1" />
               <button
                 onClick={handleBack}
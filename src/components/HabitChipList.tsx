@@ -11,6 +11,8 @@ interface HabitChipListProps {
   getIsGroupSelected?: (groupId: string) => boolean
   showStrikethrough?: boolean // Show strikethrough on unselected items
   onAddHabit?: () => void // Optional callback to add a new habit
+  getCount?: (habitId: string) => number // Current count for counter habits
+  onAdjustCount?: (habitId: string, delta: number) => void // Enables -/+ controls on counter habits
 }
 
 export function HabitChipList({
@@ -23,6 +25,8 @@ export function HabitChipList({
   getIsGroupSelected,
   showStrikethrough = false,
   onAddHabit,
+  getCount,
+  onAdjustCount,
 }: HabitChipListProps) {
   // Organize habits by group (all habits now belong to a group)
   const groupedHabits = useMemo(() => {
@@ -102,7 +106,54 @@ export function HabitChipList({
     )
   }
 
+  // Counter habits get a stepper: [-] emoji name count unit [+]
+  const renderCounterChip = (habit: Habit) => {
+    const count = getCount?.(habit.id) ?? 0
+
+    return (
+      <div
+        key={habit.id}
+        className="flex items-center rounded-lg text-xs bg-zinc-900 overflow-hidden"
+      >
+        <button
+          onClick={() => onAdjustCount?.(habit.id, -1)}
+          disabled={count <= 0}
+          className="px-2 py-1.5 text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200 transition-colors disabled:opacity-30 disabled:cursor-not-allowed focus:outline-none"
+          style={{ WebkitTapHighlightColor: 'transparent' }}
+          aria-label={`Decrease ${habit.name}`}
+        >
+          −
+        </button>
+        <button
+          onClick={() => onAdjustCount?.(habit.id, 1)}
+          className="flex items-center gap-1.5 py-1.5 hover:text-zinc-100 focus:outline-none"
+          style={{ WebkitTapHighlightColor: 'transparent' }}
+        >
+          {habit.emoji && (
+            <span style={{ filter: 'drop-shadow(0 1px 2px rgba(0,0,0,0.8))' }}>{habit.emoji}</span>
+          )}
+          <span className={count > 0 ? 'text-zinc-100' : 'text-zinc-300'}>{habit.name}</span>
+          <span className={`tabular-nums font-medium ${count > 0 ? 'text-zinc-100' : 'text-zinc-600'}`}>
+            {count}{habit.unit ? ` ${habit.unit}` : ''}
+          </span>
+        </button>
+        <button
+          onClick={() => onAdjustCount?.(habit.id, 1)}
+          className="px-2 py-1.5 text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200 transition-colors focus:outline-none"
+          style={{ WebkitTapHighlightColor: 'transparent' }}
+          aria-label={`Increase ${habit.name}`}
+        >
+          +
+        </button>
+      </div>
+    )
+  }
+
   const renderHabitChip = (habit: Habit) => {
+    if (habit.type === 'counter' && onAdjustCount) {
+      return renderCounterChip(habit)
+    }
+
     const isSelected = getIsSelected?.(habit.id) ?? false
     const isDisabled = getIsDisabled?.(habit.id) ?? false
     const isVisible = isSelected && !isDisabled
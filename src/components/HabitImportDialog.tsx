@@ -0,0 +1,167 @@
+import { useState, useRef, useMemo } from 'react'
+import { toast } from 'sonner'
+import { ResponsiveDialog } from './ResponsiveDialog'
+import { parseCsv } from '../utils/csv'
+import {
+  parseLoopCheckmarks,
+  parseMappedCsv,
+  guessColumnMapping,
+  type CsvColumnMapping,
+  type ImportedHistory,
+} from '../utils/habitImport'
+import type { Habit } from '../types'
+
+type ImportSource = 'loop' | 'csv'
+
+const SOURCE_GROUP_NAMES: Record<ImportSource, string> = {
+  loop: 'Loop Habit Tracker',
+  csv: 'Imported',
+}
+
+interface HabitImportDialogProps {
+  habits: Habit[]
+  onImport: (history: ImportedHistory, groupName: string) => { habitsCreated: number; completionsAdded: number }
+  onClose: () => void
+}
+
+export function HabitImportDialog({ habits, onImport, onClose }: HabitImportDialogProps) {
+  const [source, setSource] = useState<ImportSource>('loop')
+  const [rows, setRows] = useState<string[][] | null>(null)
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = '' // Allow picking the same file again
+    if (!file) return
+
+    const parsedRows = parseCsv(await file.text())
+    if (parsedRows.length < 2) {
+      toast.error('File has no rows')
+      return
+    }
+    setRows(parsedRows)
+    setMapping(source === 'csv' ? guessColumnMapping(parsedRows[0]) : null)
+  }
+
+  // Parse on every mapping change so the preview stays current
+  const result = useMemo((): { history: ImportedHistory } | { error: string } | null => {
+    if (!rows) return null
+    try {
+      return { history: source === 'loop' ? parseLoopCheckmarks(rows) : parseMappedCsv(rows, mapping!) }
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Could not read file' }
+    }
+  }, [rows, source, mapping])
+
+  const newHabitCount = useMemo(() => {
+    if (!result || !('history' in result)) return 0
+    const existing = new Set(habits.map(h => h.name.trim().toLowerCase()))
+    return result.history.habits.filter(h => !existing.has(h.name.trim().toLowerCase())).length
+  }, [result, habits])
+
+  const handleImport = () => {
+    if (!result || !('history' in result)) return
+    const { habitsCreated, completionsAdded } = onImport(result.history, SOURCE_GROUP_NAMES[source])
+    toast.success(`Imported ${completionsAdded} check-ins, ${habitsCreated} new habits`)
+    onClose()
+  }
+
+  const header = rows?.[0] ?? []
+  const selectClassName = 'flex-1 min-w-0 rounded-lg border border-zinc-800 bg-zinc-900 px-2 py-1.5 text-sm text-zinc-100 outline-none focus:border-zinc-600'
+
+  return (
+    <ResponsiveDialog isOpen={true} onClose={onClose} title="Import History">
+      <div className="px-4 py-4 space-y-4">
+        {/* Source */}
+        <div className="flex rounded-lg bg-zinc-900 p-1">
+          {(['loop', 'csv'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => {
+                setSource(option)
+                setRows(null)
+                setMapping(null)
+              }}
+              className={`flex-1 py-1.5 rounded-md text-sm transition-colors ${
+                source === option ? 'bg-zinc-700 text-zinc-100' : 'text-zinc-400 hover:text-zinc-200'
+              }`}
+            >
+              {option === 'loop' ? 'Loop Habit Tracker' : 'Other CSV'}
+            </button>
+          ))}
+        </div>
+
+        <p className="text-xs text-zinc-500">
+          {source === 'loop'
+            ? 'In Loop, use Settings → Export full backup as CSV, unzip it, and pick Checkmarks.csv.'
+            : 'A CSV with one row per check-in: a date, a habit name and optionally a value.'}
+        </p>
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full py-2 px-4 rounded-lg bg-zinc-800 text-zinc-300 text-sm hover:bg-zinc-700 transition-colors"
+        >
+          {rows ? 'Choose another file' : 'Choose file'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="text/csv,.csv"
+          onChange={handleFile}
+          className="hidden"
+        />
+
+        {/* Column mapping */}
+        {rows && mapping && (
+          <div className="space-y-2">
+            {([
+              ['date', 'Date'],
+              ['habit', 'Habit'],
+              ['value', 'Value'],
+            ] as const).map(([key, label]) => (
+              <div key={key} className="flex items-center gap-3">
+                <span className="w-14 text-xs text-zinc-500">{label}</span>
+                <select
+                  value={mapping[key] ?? ''}
+                  onChange={(e) => {
+                    const column = e.target.value === '' ? null : Number(e.target.value)
+                    setMapping(prev => prev && { ...prev, [key]: column })
+                  }}
+                  className={selectClassName}
+                >
+                  {key === 'value' && <option value="">None (each row counts as 1)</option>}
+                  {header.map((name, index) => (
+                    <option key={index} value={index}>{name || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Preview */}
+        {result && ('error' in result ? (
+          <div className="p-3 bg-red-950/50 border border-red-900/50 rounded-lg text-sm text-red-200">
+            {result.error}
+          </div>
+        ) : (
+          <div className="p-3 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-300">
+            {result.history.habits.length} habits ({newHabitCount} new) · {result.history.completions.length} check-ins
+            <div className="text-xs text-zinc-500 mt-1">
+              Habits are matched by name. Days you've already logged here are kept.
+            </div>
+          </div>
+        ))}
+
+        <button
+          onClick={handleImport}
+          disabled={!result || 'error' in result}
+          className="w-full py-2.5 px-4 rounded-lg bg-zinc-100 text-zinc-900 text-sm font-medium hover:bg-white transition-colors disabled:opacity-50"
+        >
+          Import
+        </button>
+      </div>
+    </ResponsiveDialog>
+  )
+}
@@ -0,0 +1,51 @@
+import { useEffect, useRef, useState } from 'react'
+
+interface NoteFieldProps {
+  value: string
+  onSave: (text: string) => void
+  placeholder?: string
+  rows?: number
+}
+
+// Textarea that saves when it loses focus (or unmounts, e.g. the dialog closes with Escape)
+export function NoteField({ value, onSave, placeholder = 'Add a note...', rows = 2 }: NoteFieldProps) {
+  const [draft, setDraft] = useState(value)
+  const draftRef = useRef(draft)
+  const valueRef = useRef(value)
+  const onSaveRef = useRef(onSave)
+
+  // Keep refs up to date for the unmount save
+  useEffect(() => {
+    draftRef.current = draft
+    valueRef.current = value
+    onSaveRef.current = onSave
+  }, [draft, value, onSave])
+
+  // Pick up changes made elsewhere (sync, undo)
+  useEffect(() => {
+    setDraft(value)
+  }, [value])
+
+  useEffect(() => {
+    return () => {
+      if (draftRef.current.trim() !== valueRef.current.trim()) {
+        onSaveRef.current(draftRef.current)
+      }
+    }
+  }, [])
+
+  const save = () => {
+    if (draft.trim() !== value.trim()) onSave(draft)
+  }
+
+  return (
+    <textarea
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={save}
+      placeholder={placeholder}
+      rows={rows}
+      className="w-full resize-none rounded-lg border border-zinc-800 bg-zinc-900 px-3 py-2 text-sm text-zinc-100 placeholder-zinc-600 outline-none focus:border-zinc-600"
+    />
+  )
+}
@@ -39,7 +39,7 @@ export function ResponsiveDialog({
       className="fixed inset-0 z-50 bg-black/80 flex items-end sm:items-center sm:justify-center"
     >
       {/* Mobile: Bottom drawer, Desktop: Centered dialog */}
-      <div className="
+      <div role="dialog" aria-modal="true" aria-label={title} className="
         w-full max-h-[85vh] overflow-hidden bg-zinc-950 border-zinc-800 safe-area-bottom
         sm:max-w-md sm:rounded-xl sm:border
         rounded-t-xl border-t
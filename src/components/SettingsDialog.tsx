@@ -0,0 +1,80 @@
+import { format } from 'date-fns'
+import { ResponsiveDialog } from './ResponsiveDialog'
+import { DATE_LOCALES, WEEK_START_OPTIONS, resolveLocale } from '../utils/dates'
+import type { Settings } from '../hooks/useSettings'
+
+// Rollover hours offered for the end of the day (midnight to 6 AM)
+const DAY_START_HOURS = [0, 1, 2, 3, 4, 5, 6]
+
+interface SettingsDialogProps {
+  settings: Settings
+  onUpdateSettings: (updates: Partial<Settings>) => void
+  onClose: () => void
+}
+
+export function SettingsDialog({ settings, onUpdateSettings, onClose }: SettingsDialogProps) {
+  const locale = resolveLocale(settings.locale)
+
+  return (
+    <ResponsiveDialog isOpen={true} onClose={onClose} title="Settings">
+      <div className="px-4 py-4 space-y-5">
+        {/* Week start */}
+        <div>
+          <p className="text-xs text-zinc-500 mb-1.5">Week starts on</p>
+          <div className="flex gap-1.5">
+            {WEEK_START_OPTIONS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => onUpdateSettings({ weekStartsOn: value })}
+                className={`flex-1 py-2 rounded-lg text-sm transition-colors ${
+                  settings.weekStartsOn === value
+                    ? 'bg-zinc-700 text-zinc-100'
+                    : 'bg-zinc-900 text-zinc-400 hover:bg-zinc-800'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Day rollover */}
+        <div>
+          <p className="text-xs text-zinc-500 mb-1.5">New day starts at</p>
+          <select
+            value={settings.dayStartHour}
+            onChange={(e) => onUpdateSettings({ dayStartHour: Number(e.target.value) })}
+            className="w-full rounded-lg border border-zinc-800 bg-zinc-900 px-3 py-2 text-sm text-zinc-100 outline-none focus:border-zinc-600"
+          >
+            {DAY_START_HOURS.map((hour) => (
+              <option key={hour} value={hour}>
+                {hour === 0 ? 'Midnight' : format(new Date(2000, 0, 1, hour), 'p', { locale })}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-zinc-600 mt-1.5">
+            Anything logged before then counts for the previous day
+          </p>
+        </div>
+
+        {/* Date language */}
+        <div>
+          <p className="text-xs text-zinc-500 mb-1.5">Date language</p>
+          <select
+            value={settings.locale}
+            onChange={(e) => onUpdateSettings({ locale: e.target.value })}
+            className="w-full rounded-lg border border-zinc-800 bg-zinc-900 px-3 py-2 text-sm text-zinc-100 outline-none focus:border-zinc-600"
+          >
+            <option value="auto">Browser default</option>
+            {Object.entries(DATE_LOCALES).map(([code, { label }]) => (
+              <option key={code} value={code}>{label}</option>
+            ))}
+          </select>
+          <p className="text-xs text-zinc-600 mt-1.5">
+            {format(new Date(), 'EEEE, PPP', { locale })}
+          </p>
+        </div>
+      </div>
+    </ResponsiveDialog>
+  )
+}
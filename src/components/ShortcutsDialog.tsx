@@ -0,0 +1,30 @@
+import { ResponsiveDialog } from './ResponsiveDialog'
+import { KEYBOARD_SHORTCUTS } from '../hooks/useKeyboardShortcuts'
+
+interface ShortcutsDialogProps {
+  onClose: () => void
+}
+
+export function ShortcutsDialog({ onClose }: ShortcutsDialogProps) {
+  return (
+    <ResponsiveDialog isOpen={true} onClose={onClose} title="Keyboard Shortcuts">
+      <div className="px-4 py-4 space-y-2">
+        {KEYBOARD_SHORTCUTS.map(({ keys, description }) => (
+          <div key={description} className="flex items-center justify-between gap-4 text-sm">
+            <span className="text-zinc-400">{description}</span>
+            <span className="flex items-center gap-1 flex-shrink-0">
+              {keys.map((key) => (
+                <kbd
+                  key={key}
+                  className="min-w-6 px-1.5 py-0.5 rounded border border-zinc-700 bg-zinc-900 text-center font-mono text-xs text-zinc-300"
+                >
+                  {key}
+                </kbd>
+              ))}
+            </span>
+          </div>
+        ))}
+      </div>
+    </ResponsiveDialog>
+  )
+}
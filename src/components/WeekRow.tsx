@@ -6,6 +6,7 @@ interface HabitCompletion {
   habit: Habit
   value: number
   isComplete: boolean
+  progress: number
 }
 
 interface WeekRowProps {
@@ -0,0 +1,54 @@
+import { memo } from 'react'
+import { format, parseISO, type Locale } from 'date-fns'
+import type { HeatmapDay } from '../utils/analytics'
+
+interface YearHeatmapProps {
+  weeks: HeatmapDay[][]
+  color: string
+  onDayClick?: (dateString: string) => void
+  locale?: Locale
+}
+
+// Opacity steps for the contribution-style shading (0 = no activity)
+export function getHeatmapOpacity(value: number): number {
+  if (value <= 0) return 0
+  if (value < 0.25) return 0.3
+  if (value < 0.5) return 0.5
+  if (value < 1) return 0.75
+  return 1
+}
+
+export const YearHeatmap = memo(function YearHeatmap({
+  weeks,
+  color,
+  onDayClick,
+  locale,
+}: YearHeatmapProps) {
+  return (
+    <div
+      className="grid gap-px"
+      style={{ gridTemplateColumns: `repeat(${weeks.length}, minmax(0, 1fr))` }}
+    >
+      {weeks.map((week, weekIndex) => (
+        <div key={weekIndex} className="grid grid-rows-7 gap-px">
+          {week.map((day) => {
+            const opacity = getHeatmapOpacity(day.value)
+            return (
+              <button
+                key={day.date}
+                type="button"
+                disabled={!day.inRange || !onDayClick}
+                onClick={() => onDayClick?.(day.date)}
+                title={day.inRange ? `${format(parseISO(day.date), 'PP', { locale })} · ${Math.round(day.value * 100)}%` : undefined}
+                className={`aspect-square w-full rounded-[1px] ${
+                  day.inRange ? 'bg-zinc-800' : 'bg-transparent'
+                } ${onDayClick && day.inRange ? 'cursor-pointer hover:ring-1 hover:ring-zinc-500' : 'cursor-default'}`}
+                style={opacity > 0 ? { backgroundColor: color, opacity } : undefined}
+              />
+            )
+          })}
+        </div>
+      ))}
+    </div>
+  )
+})
@@ -1,6 +1,7 @@
 import { useState, useCallback, useRef, useEffect } from 'react'
 import { toast } from 'sonner'
-import { saveToGDrive, loadFromGDrive, type TokenRefreshCallback } from '../services/driveStorage'
+import { saveToGDrive, loadFromGDrive, ConflictError, type TokenRefreshCallback } from '../services/driveStorage'
+import { mergeHabitData } from '../utils/sync'
 import type { HabitData } from '../types'
 
 export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'error' | 'offline'
@@ -8,6 +9,7 @@ export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'error' | 'offline'
 interface UseCloudSyncOptions {
   accessToken: string | null
   isSignedIn: boolean
+  userId?: string // Namespaces the offline queue per account
   localData: HabitData
   onDataLoaded: (data: HabitData) => void
   onTokenRefresh?: TokenRefreshCallback
@@ -17,15 +19,56 @@ interface UseCloudSyncReturn {
   syncStatus: SyncStatus
   lastSyncTime: Date | null
   syncError: string | null
+  isOnline: boolean
+  hasPendingSave: boolean // A save is queued until connectivity returns
   syncNow: () => Promise<void>
   saveToCloud: (data: HabitData) => void
 }
 
 const SYNC_DEBOUNCE_MS = 2000 // Wait 2 seconds after last change before syncing
+const MAX_SAVE_ATTEMPTS = 3 // Re-fetch and merge this many times when another device saved first
+const RETRY_BASE_MS = 5000 // First retry of a failed save, doubling each time
+const RETRY_MAX_MS = 5 * 60 * 1000
+const PENDING_KEY_PREFIX = 'habit-calendar-pending-sync'
+
+function getPendingKey(userId?: string): string {
+  return userId ? `${PENDING_KEY_PREFIX}-${userId.replace(/[^a-zA-Z0-9@._-]/g, '_')}` : PENDING_KEY_PREFIX
+}
+
+// Offline queue: the latest unsaved snapshot (snapshots are full state, so one is enough)
+function readPendingSave(key: string): HabitData | null {
+  if (typeof window === 'undefined') return null
+  try {
+    const data = localStorage.getItem(key)
+    return data ? JSON.parse(data) : null
+  } catch (e) {
+    console.error('Failed to read pending sync:', e)
+    return null
+  }
+}
+
+function writePendingSave(key: string, data: HabitData): void {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.setItem(key, JSON.stringify(data))
+  } catch (e) {
+    console.error('Failed to queue pending sync:', e)
+  }
+}
+
+function clearPendingSave(key: string): void {
+  if (typeof window === 'undefined') return
+  localStorage.removeItem(key)
+}
+
+function isBrowserOnline(): boolean {
+  return typeof navigator === 'undefined' ? true : navigator.onLine
+}
 
 export function useCloudSync({
   accessToken,
   isSignedIn,
+  userId,
   localData,
   onDataLoaded,
   onTokenRefresh,
@@ -33,11 +76,25 @@ export function useCloudSync({
   const [syncStatus, setSyncStatus] = useState<SyncStatus>('idle')
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null)
   const [syncError, setSyncError] = useState<string | null>(null)
+  const [isOnline, setIsOnline] = useState(isBrowserOnline)
+  const pendingKey = getPendingKey(userId)
+  const [hasPendingSave, setHasPendingSave] = useState(false)
 
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const pendingDataRef = useRef<HabitData | null>(null)
   const isMountedRef = useRef(true)
   const localDataRef = useRef(localData)
+  // Drive file version we last loaded or saved (undefined = not loaded yet, null = no file)
+  const cloudVersionRef = useRef<string | null | undefined>(undefined)
+  const retryTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const retryAttemptRef = useRef(0)
+  const flushPendingRef = useRef<() => Promise<void>>(async () => {})
+  const reconnectRef = useRef<() => void>(() => {})
+
+  // Pick up a queue left over from a previous session
+  useEffect(() => {
+    setHasPendingSave(readPendingSave(pendingKey) !== null)
+  }, [pendingKey])
 
   // Keep localDataRef up to date
   useEffect(() => {
@@ -51,26 +108,105 @@ export function useCloudSync({
       if (saveTimeoutRef.current) {
         clearTimeout(saveTimeoutRef.current)
       }
+      if (retryTimeoutRef.current) {
+        clearTimeout(retryTimeoutRef.current)
+      }
     }
   }, [])
 
-  const loadFromCloud = useCallback(async (source: 'init' | 'visibility' | 'manual' = 'manual') => {
+  const queueSave = useCallback((data: HabitData) => {
+    writePendingSave(pendingKey, data)
+    setHasPendingSave(true)
+  }, [pendingKey])
+
+  const markSaved = useCallback(() => {
+    clearPendingSave(pendingKey)
+    setHasPendingSave(false)
+    retryAttemptRef.current = 0
+    if (retryTimeoutRef.current) {
+      clearTimeout(retryTimeoutRef.current)
+      retryTimeoutRef.current = null
+    }
+  }, [pendingKey])
+
+  // Retry the queued save with exponential backoff (reconnecting flushes right away)
+  const scheduleRetry = useCallback(() => {
+    if (retryTimeoutRef.current) {
+      clearTimeout(retryTimeoutRef.current)
+    }
+    const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** retryAttemptRef.current)
+    retryAttemptRef.current++
+    retryTimeoutRef.current = setTimeout(() => {
+      retryTimeoutRef.current = null
+      flushPendingRef.current()
+    }, delay)
+  }, [])
+
+  // Save data unless the cloud file changed since we last saw it
+  // On a conflict, re-fetch, merge the cloud copy in and retry
+  // Returns the data that ended up in the cloud
+  const saveMerged = useCallback(async (token: string, data: HabitData): Promise<HabitData> => {
+    let dataToSave = data
+
+    for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+      if (cloudVersionRef.current !== undefined) {
+        try {
+          const { version } = await saveToGDrive(token, dataToSave, onTokenRefresh, cloudVersionRef.current)
+          cloudVersionRef.current = version
+          break
+        } catch (error) {
+          if (!(error instanceof ConflictError)) throw error
+        }
+      }
+
+      const { data: cloudData, version } = await loadFromGDrive(token, onTokenRefresh)
+      cloudVersionRef.current = version
+      if (cloudData) {
+        dataToSave = mergeData(dataToSave, cloudData)
+      }
+
+      if (attempt === MAX_SAVE_ATTEMPTS - 1) {
+        throw new Error('Cloud data kept changing, try again')
+      }
+    }
+
+    // Pull in whatever the other device saved (local may also have changed meanwhile)
+    if (dataToSave !== data && isMountedRef.current) {
+      const currentLocalData = localDataRef.current
+      const mergedLocal = mergeData(currentLocalData, dataToSave)
+      if (!isDataEqual(mergedLocal, currentLocalData)) {
+        onDataLoaded(mergedLocal)
+      }
+    }
+
+    return dataToSave
+  }, [onDataLoaded, onTokenRefresh])
+
+  const loadFromCloud = useCallback(async (source: 'init' | 'visibility' | 'reconnect' | 'manual' = 'manual') => {
     if (!accessToken) return
 
+    if (!isBrowserOnline()) {
+      setSyncStatus('offline')
+      return
+    }
+
     setSyncStatus('syncing')
     setSyncError(null)
 
-    const sourceLabel = source === 'init' ? 'Initial' : source === 'visibility' ? 'Tab visible' : 'Manual'
+    const sourceLabel = source === 'init' ? 'Initial'
+      : source === 'visibility' ? 'Tab visible'
+      : source === 'reconnect' ? 'Back online'
+      : 'Manual'
     toast.loading(`${sourceLabel}: Syncing from cloud...`, { id: 'cloud-sync' })
 
     try {
-      const { data: cloudData } = await loadFromGDrive(accessToken, onTokenRefresh)
+      const { data: cloudData, version } = await loadFromGDrive(accessToken, onTokenRefresh)
 
       if (!isMountedRef.current) return
+      cloudVersionRef.current = version
 
       if (cloudData) {
-        // Merge strategy: use cloud data if it has more recent changes
-        // For now, we'll use cloud data and merge any local-only items
+        // Merge strategy: keep the most recently updated copy of each record
         const currentLocalData = localDataRef.current
         const mergedData = mergeData(currentLocalData, cloudData)
 
@@ -81,7 +217,7 @@ export function useCloudSync({
 
         // Save merged data back to cloud only if different from cloud
         if (!isDataEqual(mergedData, cloudData)) {
-          await saveToGDrive(accessToken, mergedData, onTokenRefresh)
+          await saveMerged(accessToken, mergedData)
           toast.success(`${sourceLabel}: Synced & merged with cloud`, { id: 'cloud-sync' })
         } else {
           toast.success(`${sourceLabel}: Up to date`, { id: 'cloud-sync' })
@@ -90,26 +226,35 @@ export function useCloudSync({
         // No cloud data, upload local data
         const currentLocalData = localDataRef.current
         if (currentLocalData.habits.length > 0 || currentLocalData.groups.length > 0) {
-          await saveToGDrive(accessToken, currentLocalData, onTokenRefresh)
+          await saveMerged(accessToken, currentLocalData)
           toast.success(`${sourceLabel}: Uploaded to cloud`, { id: 'cloud-sync' })
         } else {
           toast.success(`${sourceLabel}: No data to sync`, { id: 'cloud-sync' })
         }
       }
 
+      // Local data (including anything queued offline) is now in the cloud
+      markSaved()
+
       if (isMountedRef.current) {
         setSyncStatus('synced')
         setLastSyncTime(new Date())
       }
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Sync failed'
+      if (!isBrowserOnline()) {
+        toast.dismiss('cloud-sync')
+        if (isMountedRef.current) setSyncStatus('offline')
+        return
+      }
       toast.error(`${sourceLabel}: ${errorMsg}`, { id: 'cloud-sync' })
       if (isMountedRef.current) {
         setSyncStatus('error')
         setSyncError(errorMsg)
       }
+      if (readPendingSave(pendingKey)) scheduleRetry()
     }
-  }, [accessToken, onDataLoaded, onTokenRefresh])
+  }, [accessToken, pendingKey, onDataLoaded, onTokenRefresh, saveMerged, markSaved, scheduleRetry])
 
   // Load from cloud on sign in
   useEffect(() => {
@@ -118,14 +263,28 @@ export function useCloudSync({
     }
   }, [isSignedIn, accessToken, loadFromCloud])
 
+  // On reconnect, merge with the cloud (this also pushes everything queued while offline)
+  useEffect(() => {
+    reconnectRef.current = () => {
+      if (isSignedIn && accessToken) loadFromCloud('reconnect')
+    }
+  }, [isSignedIn, accessToken, loadFromCloud])
+
   const syncNow = useCallback(async () => {
     if (!accessToken || !isSignedIn) return
 
+    if (!isBrowserOnline()) {
+      queueSave(localDataRef.current)
+      setSyncStatus('offline')
+      return
+    }
+
     setSyncStatus('syncing')
     setSyncError(null)
 
     try {
-      await saveToGDrive(accessToken, localDataRef.current, onTokenRefresh)
+      await saveMerged(accessToken, localDataRef.current)
+      markSaved()
 
       if (isMountedRef.current) {
         setSyncStatus('synced')
@@ -133,11 +292,48 @@ export function useCloudSync({
       }
     } catch (error) {
       if (isMountedRef.current) {
-        setSyncStatus('error')
+        setSyncStatus(isBrowserOnline() ? 'error' : 'offline')
+        setSyncError(error instanceof Error ? error.message : 'Sync failed')
+      }
+    }
+  }, [accessToken, isSignedIn, saveMerged, queueSave, markSaved])
+
+  // Save the queued snapshot (merged with anything changed locally since)
+  const flushPending = useCallback(async () => {
+    if (!accessToken || !isSignedIn) return
+
+    const pending = readPendingSave(pendingKey)
+    if (!pending) return
+
+    if (!isBrowserOnline()) {
+      setSyncStatus('offline')
+      return
+    }
+
+    setSyncStatus('syncing')
+
+    try {
+      await saveMerged(accessToken, mergeData(pending, localDataRef.current))
+      markSaved()
+
+      if (isMountedRef.current) {
+        setSyncStatus('synced')
+        setLastSyncTime(new Date())
+        setSyncError(null)
+        toast.success('Synced changes made offline', { id: 'cloud-save' })
+      }
+    } catch (error) {
+      if (isMountedRef.current) {
+        setSyncStatus(isBrowserOnline() ? 'error' : 'offline')
         setSyncError(error instanceof Error ? error.message : 'Sync failed')
       }
+      scheduleRetry()
     }
-  }, [accessToken, isSignedIn, onTokenRefresh])
+  }, [accessToken, isSignedIn, pendingKey, saveMerged, markSaved, scheduleRetry])
+
+  useEffect(() => {
+    flushPendingRef.current = flushPending
+  }, [flushPending])
 
   // Debounced save to cloud
   const saveToCloud = useCallback((data: HabitData) => {
@@ -150,6 +346,13 @@ export function useCloudSync({
       clearTimeout(saveTimeoutRef.current)
     }
 
+    // Offline: queue it and flush once connectivity returns
+    if (!isBrowserOnline()) {
+      queueSave(data)
+      setSyncStatus('offline')
+      return
+    }
+
     setSyncStatus('syncing')
 
     // Set new timeout
@@ -157,10 +360,14 @@ export function useCloudSync({
       const dataToSave = pendingDataRef.current
       if (!dataToSave || !accessToken) return
 
+      // Queue first so the change survives the tab closing mid-save
+      queueSave(dataToSave)
+
       toast.loading('Saving to cloud...', { id: 'cloud-save' })
 
       try {
-        await saveToGDrive(accessToken, dataToSave, onTokenRefresh)
+        await saveMerged(accessToken, dataToSave)
+        markSaved()
 
         if (isMountedRef.current) {
           setSyncStatus('synced')
@@ -170,14 +377,40 @@ export function useCloudSync({
         }
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : 'Save failed'
-        toast.error(`Save failed: ${errorMsg}`, { id: 'cloud-save' })
+        if (isBrowserOnline()) {
+          toast.error(`Save failed, will retry: ${errorMsg}`, { id: 'cloud-save' })
+        } else {
+          toast.dismiss('cloud-save')
+        }
         if (isMountedRef.current) {
-          setSyncStatus('error')
+          setSyncStatus(isBrowserOnline() ? 'error' : 'offline')
           setSyncError(errorMsg)
         }
+        scheduleRetry()
       }
     }, SYNC_DEBOUNCE_MS)
-  }, [accessToken, isSignedIn, onTokenRefresh])
+  }, [accessToken, isSignedIn, saveMerged, queueSave, markSaved, scheduleRetry])
+
+  // Track connectivity: sync as soon as we're back online
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true)
+      retryAttemptRef.current = 0
+      reconnectRef.current()
+    }
+    const handleOffline = () => {
+      setIsOnline(false)
+      setSyncStatus('offline')
+    }
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [])
 
   // Sync when tab becomes visible (for cross-device sync)
   useEffect(() => {
@@ -201,6 +434,8 @@ export function useCloudSync({
     syncStatus,
     lastSyncTime,
     syncError,
+    isOnline,
+    hasPendingSave,
     syncNow,
     saveToCloud,
   }
@@ -208,68 +443,11 @@ export function useCloudSync({
 
 /**
  * Merge local and cloud data
- * Strategy: Include all items from both, preferring cloud versions for conflicts
- * Active timers: Only one per habit (keep earliest startTimestamp)
- * Timed entries: Merge by ID first, then overlapping entries will be merged by useHabits
+ * Strategy: Per record, the most recent updatedAt wins (ties go to the cloud copy)
+ * Deletes are tombstones, so they win over older copies instead of being resurrected
  */
 function mergeData(local: HabitData, cloud: HabitData): HabitData {
-  const mergedHabits = new Map<string, typeof local.habits[0]>()
-  const mergedCompletions = new Map<string, typeof local.completions[0]>()
-  const mergedGroups = new Map<string, typeof local.groups[0]>()
-  const mergedTimedEntries = new Map<string, NonNullable<typeof local.timedEntries>[0]>()
-  // For active timers, key by habitId (only one timer per habit, keep earliest)
-  const mergedActiveTimers = new Map<string, NonNullable<typeof local.activeTimers>[0]>()
-
-  // Add cloud data first (takes precedence)
-  cloud.habits.forEach(h => mergedHabits.set(h.id, h))
-  cloud.completions.forEach(c => mergedCompletions.set(`${c.habitId}-${c.date}`, c))
-  cloud.groups.forEach(g => mergedGroups.set(g.id, g))
-  cloud.timedEntries?.forEach(e => mergedTimedEntries.set(e.id, e))
-  // For timers: key by habitId, keep earliest
-  cloud.activeTimers?.forEach(t => {
-    const existing = mergedActiveTimers.get(t.habitId)
-    if (!existing || t.startTimestamp < existing.startTimestamp) {
-      mergedActiveTimers.set(t.habitId, t)
-    }
-  })
-
-  // Add local data (only if not already in cloud)
-  local.habits.forEach(h => {
-    if (!mergedHabits.has(h.id)) {
-      mergedHabits.set(h.id, h)
-    }
-  })
-  local.completions.forEach(c => {
-    const key = `${c.habitId}-${c.date}`
-    if (!mergedCompletions.has(key)) {
-      mergedCompletions.set(key, c)
-    }
-  })
-  local.groups.forEach(g => {
-    if (!mergedGroups.has(g.id)) {
-      mergedGroups.set(g.id, g)
-    }
-  })
-  local.timedEntries?.forEach(e => {
-    if (!mergedTimedEntries.has(e.id)) {
-      mergedTimedEntries.set(e.id, e)
-    }
-  })
-  // For timers: key by habitId, keep earliest
-  local.activeTimers?.forEach(t => {
-    const existing = mergedActiveTimers.get(t.habitId)
-    if (!existing || t.startTimestamp < existing.startTimestamp) {
-      mergedActiveTimers.set(t.habitId, t)
-    }
-  })
-
-  return {
-    habits: Array.from(mergedHabits.values()),
-    completions: Array.from(mergedCompletions.values()),
-    groups: Array.from(mergedGroups.values()),
-    timedEntries: Array.from(mergedTimedEntries.values()),
-    activeTimers: Array.from(mergedActiveTimers.values()),
-  }
+  return mergeHabitData(local, cloud)
 }
 
 /**
@@ -282,6 +460,7 @@ function isDataEqual(a: HabitData, b: HabitData): boolean {
   if (a.groups.length !== b.groups.length) return false
   if ((a.timedEntries?.length || 0) !== (b.timedEntries?.length || 0)) return false
   if ((a.activeTimers?.length || 0) !== (b.activeTimers?.length || 0)) return false
+  if ((a.dayNotes?.length || 0) !== (b.dayNotes?.length || 0)) return false
 
   // Deep comparison via JSON (simple but effective for our use case)
   return JSON.stringify(a) === JSON.stringify(b)
@@ -245,8 +245,9 @@ export function useGoogleAuth(): UseGoogleAuthReturn {
         expiresAt: Date.now() + (data.expires_in * 1000),
       }
     } catch (err) {
+      // Network failure (e.g. offline) - keep the account and refresh once back online
       console.error('Failed to refresh token for', account.user.email, err)
-      return null
+      return account
     }
   }, [])
 
@@ -259,6 +260,18 @@ export function useGoogleAuth(): UseGoogleAuthReturn {
 
     let mounted = true
 
+    // Restore accounts right away so the active user's local data loads even when
+    // Google's scripts can't (e.g. opening the installed app offline)
+    const restored = loadStoredAccounts()
+    if (restored.accounts.length > 0) {
+      setAccounts(restored.accounts)
+      setActiveEmail(
+        restored.accounts.some(a => a.user.email === restored.activeEmail)
+          ? restored.activeEmail
+          : restored.accounts[0].user.email
+      )
+    }
+
     const initialize = async () => {
       try {
         await waitForGoogleScripts()
@@ -296,7 +309,10 @@ export function useGoogleAuth(): UseGoogleAuthReturn {
         }
 
         if (refreshedAccounts.length === 0) {
+          // Every session has expired, so sign out of the accounts restored above
           saveStoredAccounts({ accounts: [], activeEmail: null })
+          setAccounts([])
+          setActiveEmail(null)
           return
         }
 
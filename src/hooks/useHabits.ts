@@ -1,9 +1,16 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
-import { format, subDays } from 'date-fns'
-import type { Habit, HabitCompletion, HabitData, HabitGroup, TimedEntry, ActiveTimer } from '../types'
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
+import { format, parseISO, subDays, subWeeks, addDays, startOfWeek } from 'date-fns'
+import { isScheduled, getStreakPeriod } from '../utils/schedule'
+import { isLive, touch, tombstone, tombstoneAll, pruneTombstones, mergeHabitData, RECORD_KEYS } from '../utils/sync'
+import { diffHabitData, hasHistoryChanges, applyRecordChanges, type HistoryEntry } from '../utils/history'
+import { getDeviceTimeZone, getLogicalDate, getLogicalDateString, getLogicalDateTime, getZonedDateTime, splitIntoDays, type WeekStart } from '../utils/dates'
+import { getCycleStart } from '../utils/timers'
+import type { ImportedHistory } from '../utils/habitImport'
+import type { Habit, HabitCompletion, HabitData, HabitGoal, HabitGroup, HabitSchedule, HabitType, TimedEntry, ActiveTimer, DayNote, TimerMode } from '../types'
 
 const STORAGE_KEY_PREFIX = 'habit-calendar-data'
 const LOCAL_STORAGE_KEY = 'habit-calendar-data' // For non-authenticated users
+const MAX_HISTORY = 50 // Undo steps kept per session
 
 // Special ID for the default "Ungrouped" group
 export const UNGROUPED_GROUP_ID = 'ungrouped'
@@ -13,36 +20,60 @@ function generateId(): string {
 }
 
 function ensureUngroupedGroup(groups: HabitGroup[]): HabitGroup[] {
-  const hasUngrouped = groups.some(g => g.id === UNGROUPED_GROUP_ID)
-  if (!hasUngrouped) {
+  const ungrouped = groups.find(g => g.id === UNGROUPED_GROUP_ID)
+  if (!ungrouped) {
     return [
       { id: UNGROUPED_GROUP_ID, name: 'Ungrouped', visible: true },
       ...groups
     ]
   }
+  // Never leave it deleted (e.g. after "delete all data" on another device)
+  if (!isLive(ungrouped)) {
+    return groups.map(g => (g === ungrouped ? touch({ ...g, deleted: false }) : g))
+  }
   return groups
 }
 
-// Helper to convert HH:MM to minutes from midnight
-function timeToMinutesStatic(time: string): number {
-  const [h, m] = time.split(':').map(Number)
-  return h * 60 + m
+// Later of two optional updatedAt stamps
+function latestUpdate(a?: string, b?: string): string | undefined {
+  return (a ?? '') >= (b ?? '') ? a : b
+}
+
+// Start and end of an entry as instants (ms), so entries compare across midnight, DST and time zones
+function getEntryRange(entry: TimedEntry, dayStartHour: number): { start: number; end: number } {
+  const start = getLogicalDateTime(entry.date, entry.startTime, dayStartHour, entry.timeZone).getTime()
+  return { start, end: start + entry.duration * 60 * 1000 }
 }
 
-// Helper to convert minutes to HH:MM
-function minutesToTimeStatic(minutes: number): string {
-  const h = Math.floor(minutes / 60) % 24
-  const m = minutes % 60
-  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`
+// Split an entry that runs past the end of its day into one entry per day
+// The first piece keeps the id (and note); ids of the others derive from it so every device splits alike
+function splitOvernightEntry(entry: TimedEntry, dayStartHour: number): TimedEntry[] {
+  const pieces = splitIntoDays(entry.date, entry.startTime, entry.duration, dayStartHour, entry.timeZone)
+  if (pieces.length <= 1) return [entry]
+  return pieces.map((piece, i) => {
+    if (i === 0) return { ...entry, duration: piece.duration }
+    const { note: _note, ...rest } = entry
+    return { ...rest, ...piece, id: `${entry.id}-${piece.date}` }
+  })
 }
 
 // Merge overlapping/touching timed entries for the same habit and date
-function mergeOverlappingEntries(entries: TimedEntry[]): TimedEntry[] {
+// Absorbed entries become tombstones so the merge syncs to other devices
+// Notes of entries merged into one are kept, one per line
+function joinNotes(entries: TimedEntry[]): string | undefined {
+  const notes = Array.from(new Set(entries.map(e => e.note).filter(Boolean)))
+  return notes.length > 0 ? notes.join('\n') : undefined
+}
+
+function mergeOverlappingEntries(entries: TimedEntry[], dayStartHour: number): TimedEntry[] {
   if (entries.length === 0) return entries
 
-  // Group entries by habitId and date
+  // Tombstones pass through untouched
+  const result: TimedEntry[] = entries.filter(e => !isLive(e))
+
+  // Group entries by habitId and date (after splitting any that cross into the next day)
   const groups = new Map<string, TimedEntry[]>()
-  for (const entry of entries) {
+  for (const entry of entries.filter(isLive).flatMap(e => splitOvernightEntry(e, dayStartHour))) {
     const key = `${entry.habitId}:${entry.date}`
     if (!groups.has(key)) {
       groups.set(key, [])
@@ -50,8 +81,6 @@ function mergeOverlappingEntries(entries: TimedEntry[]): TimedEntry[] {
     groups.get(key)!.push(entry)
   }
 
-  const result: TimedEntry[] = []
-
   for (const [, groupEntries] of groups) {
     if (groupEntries.length === 1) {
       result.push(groupEntries[0])
@@ -60,52 +89,138 @@ function mergeOverlappingEntries(entries: TimedEntry[]): TimedEntry[] {
 
     // Sort by start time
     const sorted = [...groupEntries].sort((a, b) =>
-      timeToMinutesStatic(a.startTime) - timeToMinutesStatic(b.startTime)
+      getEntryRange(a, dayStartHour).start - getEntryRange(b, dayStartHour).start
     )
 
     // Merge overlapping entries
     const merged: TimedEntry[] = []
     let current = sorted[0]
+    let absorbed: TimedEntry[] = []
+
+    // Absorbed entries share the merged entry's stamp
+    const flush = () => {
+      merged.push(current)
+      for (const entry of absorbed) {
+        merged.push(tombstone(entry, current.updatedAt))
+      }
+      absorbed = []
+    }
 
     for (let i = 1; i < sorted.length; i++) {
       const next = sorted[i]
-      const currentEnd = timeToMinutesStatic(current.startTime) + current.duration
-      const nextStart = timeToMinutesStatic(next.startTime)
+      const currentRange = getEntryRange(current, dayStartHour)
+      const nextRange = getEntryRange(next, dayStartHour)
 
-      if (currentEnd >= nextStart) {
-        // Overlapping or touching - merge
-        const nextEnd = nextStart + next.duration
-        const mergedEnd = Math.max(currentEnd, nextEnd)
+      if (currentRange.end >= nextRange.start) {
+        // Overlapping or touching - merge (keep first entry's id)
+        // Reuse the newest stamp so every device produces the same result
+        const mergedEnd = Math.max(currentRange.end, nextRange.end)
         current = {
-          id: current.id, // Keep first entry's id
-          habitId: current.habitId,
-          date: current.date,
-          startTime: current.startTime,
-          duration: mergedEnd - timeToMinutesStatic(current.startTime),
+          ...current,
+          duration: Math.round((mergedEnd - currentRange.start) / 60000),
+          note: joinNotes([current, next]),
+          updatedAt: latestUpdate(current.updatedAt, next.updatedAt),
         }
+        absorbed.push(next)
       } else {
         // No overlap - push current and move to next
-        merged.push(current)
+        flush()
         current = next
       }
     }
-    merged.push(current)
+    flush()
     result.push(...merged)
   }
 
   return result
 }
 
+// Add an entry, split at the day boundary, merging each piece with the entries it overlaps or touches
+// for the same habit and day - the merged entry keeps the new entry's id
+function insertTimedEntry(entries: TimedEntry[], entry: TimedEntry, dayStartHour: number): TimedEntry[] {
+  let result = entries
+
+  for (const newEntry of splitOvernightEntry(entry, dayStartHour)) {
+    const newRange = getEntryRange(newEntry, dayStartHour)
+
+    // Find all live entries for same habit/date that overlap or touch the new entry
+    const sameHabitEntries = result.filter(e => isLive(e) && e.habitId === newEntry.habitId && e.date === newEntry.date)
+    const otherEntries = result.filter(e => !sameHabitEntries.includes(e))
+
+    // Two ranges [a,b] and [c,d] overlap/touch if a <= d && c <= b
+    const overlapping = sameHabitEntries.filter(e => {
+      const range = getEntryRange(e, dayStartHour)
+      return newRange.start <= range.end && range.start <= newRange.end
+    })
+    const nonOverlapping = sameHabitEntries.filter(e => !overlapping.includes(e))
+
+    if (overlapping.length === 0) {
+      // No overlap, just add the new entry
+      result = [...result, newEntry]
+      continue
+    }
+
+    // Merge all overlapping entries into one
+    const ranges = overlapping.map(e => getEntryRange(e, dayStartHour))
+    const mergedStart = Math.min(newRange.start, ...ranges.map(r => r.start))
+    const mergedEnd = Math.max(newRange.end, ...ranges.map(r => r.end))
+
+    const mergedEntry: TimedEntry = {
+      ...newEntry,
+      startTime: getZonedDateTime(mergedStart, newEntry.timeZone).time,
+      duration: Math.round((mergedEnd - mergedStart) / 60000),
+      note: joinNotes([newEntry, ...overlapping]),
+    }
+
+    // Merged-away entries become tombstones
+    const removed = overlapping.map(e => tombstone(e, newEntry.updatedAt))
+    result = [...otherEntries, ...nonOverlapping, ...removed, mergedEntry]
+  }
+
+  return result
+}
+
 // Only keep one active timer per habit (the one with earliest start)
+// The others become tombstones
 function deduplicateActiveTimers(timers: ActiveTimer[]): ActiveTimer[] {
   const byHabit = new Map<string, ActiveTimer>()
-  for (const timer of timers) {
+  for (const timer of timers.filter(isLive)) {
     const existing = byHabit.get(timer.habitId)
     if (!existing || timer.startTimestamp < existing.startTimestamp) {
       byHabit.set(timer.habitId, timer)
     }
   }
-  return Array.from(byHabit.values())
+  return timers.map(t => {
+    const kept = byHabit.get(t.habitId)
+    if (!isLive(t) || !kept || kept.id === t.id) return t
+    return tombstone(t, latestUpdate(t.updatedAt, kept.updatedAt))
+  })
+}
+
+// Set the completion for habitId/date to getValue(current value), stamping the change
+// Values of 0 or less become tombstones
+function upsertCompletion(
+  completions: HabitCompletion[],
+  habitId: string,
+  date: string,
+  getValue: (current: number) => number
+): HabitCompletion[] {
+  const existing = completions.find((c) => c.habitId === habitId && c.date === date)
+  const current = existing && isLive(existing) ? existing.value : 0
+  const value = Math.max(0, getValue(current))
+  const updatedAt = new Date().toISOString()
+
+  if (!existing) {
+    return value > 0 ? [...completions, { habitId, date, value, updatedAt }] : completions
+  }
+  if (value <= 0 && !isLive(existing)) return completions
+
+  return completions.map((c) => {
+    if (c !== existing) return c
+    if (value <= 0) return tombstone({ ...c, value: 0 }, updatedAt)
+    const { deleted: _deleted, ...rest } = c
+    return { ...rest, value, updatedAt }
+  })
 }
 
 function getStorageKey(userId?: string): string {
@@ -115,27 +230,28 @@ function getStorageKey(userId?: string): string {
   return `${STORAGE_KEY_PREFIX}-${sanitizedId}`
 }
 
-function loadFromStorage(storageKey: string): HabitData {
+function loadFromStorage(storageKey: string, dayStartHour: number): HabitData {
   if (typeof window === 'undefined') {
-    return { habits: [], completions: [], groups: [], timedEntries: [], activeTimers: [] }
+    return { habits: [], completions: [], groups: [], timedEntries: [], activeTimers: [], dayNotes: [] }
   }
   try {
     const data = localStorage.getItem(storageKey)
     if (data) {
       const parsed = JSON.parse(data)
+      // Normalize on load: drop expired tombstones, merge overlapping entries, deduplicate timers
       return {
-        habits: parsed.habits || [],
-        completions: parsed.completions || [],
-        groups: parsed.groups || [],
-        // Normalize on load: merge overlapping entries, deduplicate timers
-        timedEntries: mergeOverlappingEntries(parsed.timedEntries || []),
-        activeTimers: deduplicateActiveTimers(parsed.activeTimers || []),
+        habits: pruneTombstones(parsed.habits || []),
+        completions: pruneTombstones(parsed.completions || []),
+        groups: pruneTombstones(parsed.groups || []),
+        timedEntries: mergeOverlappingEntries(pruneTombstones(parsed.timedEntries || []), dayStartHour),
+        activeTimers: deduplicateActiveTimers(pruneTombstones(parsed.activeTimers || [])),
+        dayNotes: pruneTombstones(parsed.dayNotes || []),
       }
     }
   } catch (e) {
     console.error('Failed to load habits from localStorage:', e)
   }
-  return { habits: [], completions: [], groups: [], timedEntries: [], activeTimers: [] }
+  return { habits: [], completions: [], groups: [], timedEntries: [], activeTimers: [], dayNotes: [] }
 }
 
 function saveToStorage(storageKey: string, data: HabitData): void {
@@ -151,32 +267,86 @@ export interface AddHabitOptions {
   name: string
   groupId?: string
   emoji?: string
+  type?: HabitType
+  unit?: string
+  goal?: HabitGoal
+  schedule?: HabitSchedule
+  reminders?: string[]
 }
 
 export interface UseHabitsOptions {
   userId?: string // User's email for multi-user support
   onDataChange?: (data: HabitData) => void
+  dayStartHour?: number // Hour the logical day rolls over (streaks, timers)
+  weekStartsOn?: WeekStart // First day of the week (weekly goals and streaks)
 }
 
 export function useHabits(options: UseHabitsOptions = {}) {
-  const { userId, onDataChange } = options
-
-  const [habits, setHabits] = useState<Habit[]>([])
-  const [completions, setCompletions] = useState<HabitCompletion[]>([])
-  const [groups, setGroups] = useState<HabitGroup[]>([])
-  const [timedEntries, setTimedEntries] = useState<TimedEntry[]>([])
-  const [activeTimers, setActiveTimers] = useState<ActiveTimer[]>([])
+  const { userId, onDataChange, dayStartHour = 0, weekStartsOn = 0 } = options
+
+  // Raw records, including tombstones (persisted and synced as-is)
+  const [allHabits, setHabits] = useState<Habit[]>([])
+  const [allCompletions, setCompletions] = useState<HabitCompletion[]>([])
+  const [allGroups, setGroups] = useState<HabitGroup[]>([])
+  const [allTimedEntries, setTimedEntries] = useState<TimedEntry[]>([])
+  const [allActiveTimers, setActiveTimers] = useState<ActiveTimer[]>([])
+  const [allDayNotes, setDayNotes] = useState<DayNote[]>([])
   const [isLoaded, setIsLoaded] = useState(false)
 
+  // Live records exposed to the app
+  const habits = useMemo(() => allHabits.filter(isLive), [allHabits])
+  const completions = useMemo(() => allCompletions.filter(isLive), [allCompletions])
+  const groups = useMemo(() => allGroups.filter(isLive), [allGroups])
+  const timedEntries = useMemo(() => allTimedEntries.filter(isLive), [allTimedEntries])
+  const activeTimers = useMemo(() => allActiveTimers.filter(isLive), [allActiveTimers])
+  const dayNotes = useMemo(() => allDayNotes.filter(isLive), [allDayNotes])
+
+  // `habits` includes archived habits (analytics, export); views use activeHabits
+  const activeHabits = useMemo(() => habits.filter(h => !h.archived), [habits])
+  const archivedHabits = useMemo(() => habits.filter(h => h.archived), [habits])
+
   // Track current storage key
   const storageKeyRef = useRef<string>(getStorageKey(userId))
 
+  // Read when normalizing loaded entries (changing the setting shouldn't reload data)
+  const dayStartHourRef = useRef(dayStartHour)
+  useEffect(() => {
+    dayStartHourRef.current = dayStartHour
+  }, [dayStartHour])
+
+  // Undo / redo history: a mutation notes the data it started from, and once its
+  // change is committed the records it touched become one history entry
+  const committedDataRef = useRef<HabitData>({ habits: [], completions: [], groups: [], timedEntries: [], activeTimers: [], dayNotes: [] })
+  const pendingCommandRef = useRef<{ label: string; before: HabitData } | null>(null)
+  const [commandCount, setCommandCount] = useState(0) // Re-renders with the mutation, so one that changes nothing is dropped
+  const undoStackRef = useRef<HistoryEntry[]>([])
+  const redoStackRef = useRef<HistoryEntry[]>([])
+  const [historyState, setHistoryState] = useState<{ undoLabel: string | null; redoLabel: string | null }>({
+    undoLabel: null,
+    redoLabel: null,
+  })
+
+  const updateHistoryState = useCallback(() => {
+    setHistoryState({
+      undoLabel: undoStackRef.current[undoStackRef.current.length - 1]?.label ?? null,
+      redoLabel: redoStackRef.current[redoStackRef.current.length - 1]?.label ?? null,
+    })
+  }, [])
+
+  // Called at the start of every undoable mutation; several calls in one event form one entry
+  const recordCommand = useCallback((label: string) => {
+    if (!pendingCommandRef.current) {
+      pendingCommandRef.current = { label, before: committedDataRef.current }
+      setCommandCount(c => c + 1)
+    }
+  }, [])
+
   // Load data when userId changes (user signs in/out or switches accounts)
   useEffect(() => {
     const newStorageKey = getStorageKey(userId)
     storageKeyRef.current = newStorageKey
 
-    const data = loadFromStorage(newStorageKey)
+    const data = loadFromStorage(newStorageKey, dayStartHourRef.current)
     // Migrate habits without groupId to "Ungrouped"
     const migratedHabits = data.habits.map(h =>
       h.groupId ? h : { ...h, groupId: UNGROUPED_GROUP_ID }
@@ -187,112 +357,179 @@ export function useHabits(options: UseHabitsOptions = {}) {
     setGroups(ensureUngroupedGroup(data.groups))
     setTimedEntries(data.timedEntries || [])
     setActiveTimers(data.activeTimers || [])
+    setDayNotes(data.dayNotes || [])
     setIsLoaded(true)
-  }, [userId])
+
+    // History belongs to the previous user's data
+    pendingCommandRef.current = null
+    undoStackRef.current = []
+    redoStackRef.current = []
+    updateHistoryState()
+  }, [userId, updateHistoryState])
+
+  // Turn the pending command into a history entry once its change is committed
+  // (runs with the mutation's render even when it changed nothing, so the command can't linger)
+  useEffect(() => {
+    const current: HabitData = {
+      habits: allHabits,
+      completions: allCompletions,
+      groups: allGroups,
+      timedEntries: allTimedEntries,
+      activeTimers: allActiveTimers,
+      dayNotes: allDayNotes,
+    }
+    const pending = pendingCommandRef.current
+    pendingCommandRef.current = null
+    committedDataRef.current = current
+    if (!pending) return
+
+    const changes = diffHabitData(pending.before, current)
+    if (!hasHistoryChanges(changes)) return
+    undoStackRef.current = [...undoStackRef.current.slice(-(MAX_HISTORY - 1)), { label: pending.label, changes }]
+    redoStackRef.current = []
+    updateHistoryState()
+  }, [allHabits, allCompletions, allGroups, allTimedEntries, allActiveTimers, allDayNotes, commandCount, updateHistoryState])
 
   useEffect(() => {
     if (isLoaded) {
-      const data = { habits, completions, groups, timedEntries, activeTimers }
+      const data = {
+        habits: allHabits,
+        completions: allCompletions,
+        groups: allGroups,
+        timedEntries: allTimedEntries,
+        activeTimers: allActiveTimers,
+        dayNotes: allDayNotes,
+      }
       saveToStorage(storageKeyRef.current, data)
       onDataChange?.(data)
     }
-  }, [habits, completions, groups, timedEntries, activeTimers, isLoaded, onDataChange])
+  }, [allHabits, allCompletions, allGroups, allTimedEntries, allActiveTimers, allDayNotes, isLoaded, onDataChange])
 
-  // Load all data from external source (for cloud sync)
-  const loadAllData = useCallback((data: HabitData) => {
+  // Replace all records with normalized copies of data (part of any pending command)
+  const applyData = useCallback((data: HabitData) => {
     // Migrate habits without groupId to "Ungrouped"
-    const migratedHabits = data.habits.map(h =>
+    const migratedHabits = pruneTombstones(data.habits).map(h =>
       h.groupId ? h : { ...h, groupId: UNGROUPED_GROUP_ID }
     )
     setHabits(migratedHabits)
-    setCompletions(data.completions)
+    setCompletions(pruneTombstones(data.completions))
     // Ensure "Ungrouped" group always exists
-    setGroups(ensureUngroupedGroup(data.groups))
-    // Normalize: merge overlapping entries, deduplicate timers
-    setTimedEntries(mergeOverlappingEntries(data.timedEntries || []))
-    setActiveTimers(deduplicateActiveTimers(data.activeTimers || []))
+    setGroups(ensureUngroupedGroup(pruneTombstones(data.groups)))
+    // Normalize: drop expired tombstones, merge overlapping entries, deduplicate timers
+    setTimedEntries(mergeOverlappingEntries(pruneTombstones(data.timedEntries || []), dayStartHourRef.current))
+    setActiveTimers(deduplicateActiveTimers(pruneTombstones(data.activeTimers || [])))
+    setDayNotes(pruneTombstones(data.dayNotes || []))
   }, [])
 
+  // Load all data from external source (for cloud sync)
+  const loadAllData = useCallback((data: HabitData) => {
+    // Cloud changes aren't an undo step, whatever mutation may have been pending
+    pendingCommandRef.current = null
+    committedDataRef.current = data
+    applyData(data)
+  }, [applyData])
+
   // Group management
   const addGroup = useCallback((name: string) => {
+    recordCommand('Add group')
     const newGroup: HabitGroup = {
       id: generateId(),
       name,
       visible: true,
+      updatedAt: new Date().toISOString(),
     }
     setGroups((prev) => [...prev, newGroup])
     return newGroup
-  }, [])
+  }, [recordCommand])
 
   const updateGroup = useCallback((id: string, updates: Partial<Omit<HabitGroup, 'id'>>) => {
+    recordCommand('Edit group')
     setGroups((prev) =>
-      prev.map((g) => (g.id === id ? { ...g, ...updates } : g))
+      prev.map((g) => (g.id === id ? touch({ ...g, ...updates }) : g))
     )
-  }, [])
+  }, [recordCommand])
 
   const deleteGroup = useCallback((id: string) => {
     // Prevent deletion of "Ungrouped" group
     if (id === UNGROUPED_GROUP_ID) return
 
-    setGroups((prev) => prev.filter((g) => g.id !== id))
+    recordCommand('Delete group')
+    setGroups((prev) => prev.map((g) => (g.id === id ? tombstone(g) : g)))
     // Move habits to "Ungrouped" group instead of removing groupId
     setHabits((prev) =>
-      prev.map((h) => (h.groupId === id ? { ...h, groupId: UNGROUPED_GROUP_ID } : h))
+      prev.map((h) => (h.groupId === id ? touch({ ...h, groupId: UNGROUPED_GROUP_ID }) : h))
     )
-  }, [])
+  }, [recordCommand])
 
   const toggleGroupVisibility = useCallback((id: string) => {
+    recordCommand('Show / hide group')
     setGroups((prev) =>
-      prev.map((g) => (g.id === id ? { ...g, visible: !g.visible } : g))
+      prev.map((g) => (g.id === id ? touch({ ...g, visible: !g.visible }) : g))
     )
-  }, [])
+  }, [recordCommand])
 
   // Habit management
   const addHabit = useCallback((options: AddHabitOptions) => {
+    recordCommand('Add habit')
     const newHabit: Habit = {
       id: generateId(),
       name: options.name,
       emoji: options.emoji,
+      type: options.type,
+      unit: options.unit,
+      goal: options.goal,
+      schedule: options.schedule,
+      reminders: options.reminders,
       // Default to "Ungrouped" if no group specified
       groupId: options.groupId || UNGROUPED_GROUP_ID,
       createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
     }
 
     setHabits((prev) => [...prev, newHabit])
     return newHabit
-  }, [])
+  }, [recordCommand])
 
   const updateHabit = useCallback((id: string, updates: Partial<Omit<Habit, 'id' | 'createdAt'>>) => {
+    recordCommand('Edit habit')
     setHabits((prev) =>
-      prev.map((h) => (h.id === id ? { ...h, ...updates } : h))
+      prev.map((h) => (h.id === id ? touch({ ...h, ...updates }) : h))
     )
-  }, [])
+  }, [recordCommand])
+
+  // Archiving hides a habit but keeps its completions and timed entries
+  const archiveHabit = useCallback((id: string) => {
+    recordCommand('Archive habit')
+    setHabits((prev) =>
+      prev.map((h) => (h.id === id ? touch({ ...h, archived: true }) : h))
+    )
+  }, [recordCommand])
+
+  const restoreHabit = useCallback((id: string) => {
+    recordCommand('Restore habit')
+    setHabits((prev) =>
+      prev.map((h) => (h.id === id ? touch({ ...h, archived: undefined }) : h))
+    )
+  }, [recordCommand])
 
+  // Deletes cascade to the habit's completions, timed entries and timers
   const deleteHabit = useCallback((id: string) => {
-    setHabits((prev) => prev.filter((h) => h.id !== id))
-    setCompletions((prev) => prev.filter((c) => c.habitId !== id))
-    setTimedEntries((prev) => prev.filter((e) => e.habitId !== id))
-    setActiveTimers((prev) => prev.filter((t) => t.habitId !== id))
-  }, [])
+    recordCommand('Delete habit')
+    const now = new Date().toISOString()
+    const deleteOwned = <T extends { habitId: string; deleted?: boolean }>(record: T): T =>
+      record.habitId === id && !record.deleted ? tombstone(record, now) : record
+    setHabits((prev) => prev.map((h) => (h.id === id ? tombstone(h, now) : h)))
+    setCompletions((prev) => prev.map(deleteOwned))
+    setTimedEntries((prev) => prev.map(deleteOwned))
+    setActiveTimers((prev) => prev.map(deleteOwned))
+  }, [recordCommand])
 
   // Completion management
+  // A value of 0 leaves a tombstone (rather than removing the row) so the clear syncs
   const setCompletion = useCallback((habitId: string, date: string, value: number) => {
-    setCompletions((prev) => {
-      const existing = prev.find((c) => c.habitId === habitId && c.date === date)
-
-      if (value <= 0) {
-        return prev.filter((c) => !(c.habitId === habitId && c.date === date))
-      }
-
-      if (existing) {
-        return prev.map((c) =>
-          c.habitId === habitId && c.date === date ? { ...c, value } : c
-        )
-      }
-
-      return [...prev, { habitId, date, value }]
-    })
-  }, [])
+    recordCommand('Check-in')
+    setCompletions((prev) => upsertCompletion(prev, habitId, date, () => value))
+  }, [recordCommand])
 
   const toggleBinary = useCallback((habitId: string, date: string): boolean => {
     const existing = completions.find((c) => c.habitId === habitId && c.date === date)
@@ -301,31 +538,171 @@ export function useHabits(options: UseHabitsOptions = {}) {
     return newValue === 1
   }, [completions, setCompletion])
 
+  // Lookup indexes keyed by `${habitId}:${date}` (analytics and calendar views query every day)
+  const completionIndex = useMemo(() => {
+    const index = new Map<string, number>()
+    for (const c of completions) {
+      index.set(`${c.habitId}:${c.date}`, c.value)
+    }
+    return index
+  }, [completions])
+
+  // Total timed minutes per habit/date
+  const timedEntryIndex = useMemo(() => {
+    const index = new Map<string, number>()
+    for (const e of timedEntries) {
+      const key = `${e.habitId}:${e.date}`
+      index.set(key, (index.get(key) ?? 0) + e.duration)
+    }
+    return index
+  }, [timedEntries])
+
+  const habitIndex = useMemo(() => {
+    return new Map(habits.map(h => [h.id, h]))
+  }, [habits])
+
+  // Add delta to a counter habit's count for a date (never goes below 0)
+  // Returns the new count
+  const adjustCounter = useCallback((habitId: string, date: string, delta: number): number => {
+    const existing = completions.find((c) => c.habitId === habitId && c.date === date)
+    const newValue = Math.max(0, (existing?.value ?? 0) + delta)
+
+    recordCommand('Count')
+    setCompletions((prev) => upsertCompletion(prev, habitId, date, (current) => current + delta))
+
+    return newValue
+  }, [completions, recordCommand])
+
+  const getCompletionNote = useCallback(
+    (habitId: string, date: string) =>
+      completions.find((c) => c.habitId === habitId && c.date === date)?.note ?? '',
+    [completions]
+  )
+
+  // Whether there's a check-in to hang a note off (days done only through timed entries have none)
+  const hasCompletion = useCallback(
+    (habitId: string, date: string) => (completionIndex.get(`${habitId}:${date}`) ?? 0) > 0,
+    [completionIndex]
+  )
+
+  // Notes hang off an existing check-in (an empty note removes it)
+  const setCompletionNote = useCallback((habitId: string, date: string, note: string) => {
+    recordCommand('Edit note')
+    setCompletions((prev) =>
+      prev.map((c) =>
+        c.habitId === habitId && c.date === date && isLive(c) ? touch({ ...c, note: note.trim() || undefined }) : c
+      )
+    )
+  }, [recordCommand])
+
+  // Amount logged for a habit on a date, in the unit of its goal
+  // Minute goals sum timed entries, otherwise this is the completion value (count for counters)
   const getCompletionValue = useCallback(
     (habitId: string, date: string): number => {
+      const key = `${habitId}:${date}`
+      if (habitIndex.get(habitId)?.goal?.unit === 'minutes') {
+        return timedEntryIndex.get(key) ?? 0
+      }
+
       // Check regular completions first
-      const completion = completions.find(
-        (c) => c.habitId === habitId && c.date === date
-      )
-      if (completion?.value) return completion.value
+      const value = completionIndex.get(key)
+      if (value) return value
 
       // Also check if there are any timed entries for this habit on this date
       // Timed entries count as completion (collapsed to single dot in calendar views)
-      const hasTimedEntry = timedEntries.some(
-        (e) => e.habitId === habitId && e.date === date
-      )
-      return hasTimedEntry ? 1 : 0
+      return timedEntryIndex.has(key) ? 1 : 0
+    },
+    [habitIndex, completionIndex, timedEntryIndex]
+  )
+
+  // Sum of logged amounts for the week containing date
+  const getWeekTotal = useCallback(
+    (habitId: string, date: string | Date): number => {
+      const weekStart = startOfWeek(typeof date === 'string' ? parseISO(date) : date, { weekStartsOn })
+      let total = 0
+      for (let i = 0; i < 7; i++) {
+        total += getCompletionValue(habitId, format(addDays(weekStart, i), 'yyyy-MM-dd'))
+      }
+      return total
+    },
+    [getCompletionValue, weekStartsOn]
+  )
+
+  // Progress towards the habit's goal for the day (or its week), from 0 to 1
+  // Habits without a goal are either done (1) or not (0)
+  const getGoalProgress = useCallback(
+    (habitId: string, date: string): number => {
+      const goal = habitIndex.get(habitId)?.goal
+      if (!goal || goal.target <= 0) {
+        return getCompletionValue(habitId, date) > 0 ? 1 : 0
+      }
+      const amount = goal.period === 'week'
+        ? getWeekTotal(habitId, date)
+        : getCompletionValue(habitId, date)
+      return Math.min(1, amount / goal.target)
+    },
+    [habitIndex, getCompletionValue, getWeekTotal]
+  )
+
+  // A day counts as complete when something was logged and the goal for its period is met
+  const isGoalMet = useCallback(
+    (habitId: string, date: string): boolean => {
+      return getCompletionValue(habitId, date) > 0 && getGoalProgress(habitId, date) >= 1
     },
-    [completions, timedEntries]
+    [getCompletionValue, getGoalProgress]
   )
 
+  // Whether the week containing date met the habit's weekly target
+  // (the weekly goal, or the number of completed days for times-per-week schedules)
+  const isWeekMet = useCallback(
+    (habit: Habit, date: Date): boolean => {
+      if (habit.goal?.period === 'week' && habit.goal.target > 0) {
+        return getWeekTotal(habit.id, date) >= habit.goal.target
+      }
+      const times = habit.schedule?.type === 'timesPerWeek' ? habit.schedule.times : 1
+      const weekStart = startOfWeek(date, { weekStartsOn })
+      let completedDays = 0
+      for (let i = 0; i < 7; i++) {
+        if (isGoalMet(habit.id, format(addDays(weekStart, i), 'yyyy-MM-dd'))) completedDays++
+      }
+      return completedDays >= times
+    },
+    [getWeekTotal, isGoalMet, weekStartsOn]
+  )
+
+  // Current streak in days, or in weeks for weekly goals and times-per-week schedules
+  // Days the habit isn't scheduled are skipped rather than breaking the streak
   const getStreak = useCallback(
     (habitId: string): number => {
+      const habit = habitIndex.get(habitId)
+      if (!habit) return 0
+
+      if (getStreakPeriod(habit) === 'week') {
+        let streak = 0
+        let week = getLogicalDate(new Date(), dayStartHour)
+
+        // The current week is still in progress, so don't break on it
+        if (!isWeekMet(habit, week)) {
+          week = subWeeks(week, 1)
+        }
+
+        for (let i = 0; i < 52; i++) {
+          if (isWeekMet(habit, week)) {
+            streak++
+            week = subWeeks(week, 1)
+          } else {
+            break
+          }
+        }
+
+        return streak
+      }
+
       let streak = 0
-      let date = new Date()
+      let date = getLogicalDate(new Date(), dayStartHour)
 
       const todayStr = format(date, 'yyyy-MM-dd')
-      const todayComplete = getCompletionValue(habitId, todayStr) > 0
+      const todayComplete = isGoalMet(habitId, todayStr)
 
       if (!todayComplete) {
         date = subDays(date, 1)
@@ -333,122 +710,72 @@ export function useHabits(options: UseHabitsOptions = {}) {
 
       for (let i = 0; i < 365; i++) {
         const dateStr = format(date, 'yyyy-MM-dd')
-        const isComplete = getCompletionValue(habitId, dateStr) > 0
+        const isComplete = isGoalMet(habitId, dateStr)
 
         if (isComplete) {
           streak++
-          date = subDays(date, 1)
-        } else {
+        } else if (isScheduled(habit.schedule, date)) {
           break
         }
+        date = subDays(date, 1)
       }
 
       return streak
     },
-    [getCompletionValue]
+    [habitIndex, isWeekMet, isGoalMet, dayStartHour]
   )
 
   // Get visible habits (based on group visibility)
   const getVisibleHabits = useCallback(() => {
-    return habits.filter((habit) => {
+    return activeHabits.filter((habit) => {
       const group = groups.find((g) => g.id === habit.groupId)
       return group ? group.visible : true
     })
-  }, [habits, groups])
+  }, [activeHabits, groups])
 
   // Get all data as HabitData object
+  // Includes tombstones so deletes reach storage and the cloud
   const getAllData = useCallback((): HabitData => {
-    return { habits, completions, groups, timedEntries, activeTimers }
-  }, [habits, completions, groups, timedEntries, activeTimers])
-
-  // Helper to convert HH:MM to minutes from midnight
-  const timeToMinutes = useCallback((time: string): number => {
-    const [h, m] = time.split(':').map(Number)
-    return h * 60 + m
-  }, [])
-
-  // Helper to convert minutes to HH:MM
-  const minutesToTime = useCallback((minutes: number): string => {
-    const h = Math.floor(minutes / 60) % 24
-    const m = minutes % 60
-    return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`
-  }, [])
+    return {
+      habits: allHabits,
+      completions: allCompletions,
+      groups: allGroups,
+      timedEntries: allTimedEntries,
+      activeTimers: allActiveTimers,
+      dayNotes: allDayNotes,
+    }
+  }, [allHabits, allCompletions, allGroups, allTimedEntries, allActiveTimers, allDayNotes])
 
   // Timed entry management (for day view)
   // Automatically merges overlapping/touching entries for the same habit
+  // An entry running past the end of the day is stored as one entry per day
   const addTimedEntry = useCallback((habitId: string, date: string, startTime: string, duration: number) => {
-    const newStartMinutes = timeToMinutes(startTime)
-    const newEndMinutes = newStartMinutes + duration
-
-    setTimedEntries((prev) => {
-      // Find all entries for same habit/date that overlap or touch the new entry
-      const sameHabitEntries = prev.filter(e => e.habitId === habitId && e.date === date)
-      const otherEntries = prev.filter(e => !(e.habitId === habitId && e.date === date))
-
-      // Find entries that overlap or touch (end >= start of other)
-      const overlapping: TimedEntry[] = []
-      const nonOverlapping: TimedEntry[] = []
-
-      for (const entry of sameHabitEntries) {
-        const entryStart = timeToMinutes(entry.startTime)
-        const entryEnd = entryStart + entry.duration
-
-        // Check if they overlap or touch
-        // Two ranges [a,b] and [c,d] overlap/touch if a <= d && c <= b
-        if (newStartMinutes <= entryEnd && entryStart <= newEndMinutes) {
-          overlapping.push(entry)
-        } else {
-          nonOverlapping.push(entry)
-        }
-      }
-
-      if (overlapping.length === 0) {
-        // No overlap, just add the new entry
-        const newEntry: TimedEntry = {
-          id: generateId(),
-          habitId,
-          date,
-          startTime,
-          duration,
-        }
-        return [...prev, newEntry]
-      }
-
-      // Merge all overlapping entries into one
-      let mergedStart = newStartMinutes
-      let mergedEnd = newEndMinutes
-
-      for (const entry of overlapping) {
-        const entryStart = timeToMinutes(entry.startTime)
-        const entryEnd = entryStart + entry.duration
-        mergedStart = Math.min(mergedStart, entryStart)
-        mergedEnd = Math.max(mergedEnd, entryEnd)
-      }
-
-      const mergedEntry: TimedEntry = {
-        id: generateId(),
-        habitId,
-        date,
-        startTime: minutesToTime(mergedStart),
-        duration: mergedEnd - mergedStart,
-      }
-
-      return [...otherEntries, ...nonOverlapping, mergedEntry]
-    })
+    recordCommand('Add entry')
+    setTimedEntries((prev) => insertTimedEntry(prev, {
+      id: generateId(),
+      habitId,
+      date,
+      startTime,
+      duration,
+      timeZone: getDeviceTimeZone(),
+      updatedAt: new Date().toISOString(),
+    }, dayStartHour))
 
     // Return a placeholder - the actual entry may be merged
     return { id: '', habitId, date, startTime, duration }
-  }, [timeToMinutes, minutesToTime])
+  }, [dayStartHour, recordCommand])
 
   const updateTimedEntry = useCallback((id: string, updates: Partial<Omit<TimedEntry, 'id'>>) => {
+    recordCommand('Edit entry')
     setTimedEntries((prev) =>
-      prev.map((e) => (e.id === id ? { ...e, ...updates } : e))
+      prev.map((e) => (e.id === id ? touch({ ...e, ...updates }) : e))
     )
-  }, [])
+  }, [recordCommand])
 
   const deleteTimedEntry = useCallback((id: string) => {
-    setTimedEntries((prev) => prev.filter((e) => e.id !== id))
-  }, [])
+    recordCommand('Delete entry')
+    setTimedEntries((prev) => prev.map((e) => (e.id === id ? tombstone(e) : e)))
+  }, [recordCommand])
 
   const getTimedEntriesForDate = useCallback(
     (date: string): TimedEntry[] => {
@@ -473,11 +800,30 @@ export function useHabits(options: UseHabitsOptions = {}) {
     [completions]
   )
 
+  // Day notes (free-form journal text, one per date)
+  const getDayNote = useCallback(
+    (date: string) => dayNotes.find((n) => n.date === date)?.text ?? '',
+    [dayNotes]
+  )
+
+  // Clearing the text leaves a tombstone so the clear syncs
+  const setDayNote = useCallback((date: string, text: string) => {
+    recordCommand('Edit day note')
+    const trimmed = text.trim()
+    setDayNotes((prev) => {
+      const existing = prev.find((n) => n.date === date)
+      if (!existing) return trimmed ? [...prev, touch<DayNote>({ date, text: trimmed })] : prev
+      if (!trimmed) return isLive(existing) ? prev.map((n) => (n === existing ? tombstone(n) : n)) : prev
+      return prev.map((n) => (n === existing ? touch<DayNote>({ date, text: trimmed }) : n))
+    })
+  }, [recordCommand])
+
   // Active timer management (synced across devices)
   // Only one timer per habit allowed - if timer exists for habit, keep the earlier one
   // If a recent entry exists that touches/overlaps with timer start, continue from entry's start
-  const startTimer = useCallback((habitId: string, date: string, startTime: string, customStartTimestamp?: number) => {
+  const startTimer = useCallback((habitId: string, date: string, startTime: string, customStartTimestamp?: number, mode?: TimerMode) => {
     let timestamp = customStartTimestamp ?? Date.now()
+    let timerDate = date
     let effectiveStartTime = startTime
 
     // Check if there's already a timer for this habit
@@ -487,6 +833,7 @@ export function useHabits(options: UseHabitsOptions = {}) {
       if (existingTimer.startTimestamp <= timestamp) {
         return existingTimer // Already have an earlier timer running
       }
+      recordCommand('Start timer')
       // New timer is earlier, replace existing
       const newTimer: ActiveTimer = {
         id: generateId(),
@@ -494,68 +841,101 @@ export function useHabits(options: UseHabitsOptions = {}) {
         date,
         startTime: effectiveStartTime,
         startTimestamp: timestamp,
+        timeZone: getDeviceTimeZone(),
+        mode,
+        updatedAt: new Date().toISOString(),
       }
-      setActiveTimers((prev) => prev.map(t => t.habitId === habitId ? newTimer : t))
+      setActiveTimers((prev) => [
+        ...prev.map(t => t.id === existingTimer.id ? tombstone(t, newTimer.updatedAt) : t),
+        newTimer,
+      ])
       return newTimer
     }
 
+    recordCommand('Start timer')
+
     // Check if there's a recent timed entry for this habit that the timer should continue from
-    const newStartMinutes = timeToMinutes(startTime)
+    // (not for countdowns and Pomodoros, which time fresh periods)
+    // Compared as instants, since entries may have been logged in another time zone or across a DST change
+    // The previous day counts too, so a timer started just after midnight continues the evening's entry
+    const newStart = getLogicalDateTime(date, startTime, dayStartHour).getTime()
+    const previousDate = format(subDays(parseISO(date), 1), 'yyyy-MM-dd')
     const entriesToMerge: TimedEntry[] = []
-    const MERGE_GAP_MINUTES = 15 // Merge if entry ended within 15 minutes of timer start
+    const MERGE_GAP_MS = 15 * 60 * 1000 // Merge if entry ended within 15 minutes of timer start
+    const getEntryStart = (entry: TimedEntry) => getEntryRange(entry, dayStartHour).start
 
     for (const entry of timedEntries) {
-      if (entry.habitId !== habitId || entry.date !== date) continue
+      if (mode || entry.habitId !== habitId || (entry.date !== date && entry.date !== previousDate)) continue
 
-      const entryStart = timeToMinutes(entry.startTime)
-      const entryEnd = entryStart + entry.duration
+      const entryEnd = getEntryRange(entry, dayStartHour).end
 
       // If entry ends within gap threshold of timer start (or overlapping), merge
       // This allows "resuming" an entry that ended recently
-      if (entryEnd >= newStartMinutes - MERGE_GAP_MINUTES) {
+      if (entryEnd >= newStart - MERGE_GAP_MS) {
         entriesToMerge.push(entry)
       }
     }
 
     if (entriesToMerge.length > 0) {
-      // Find the earliest start time among entries to merge
-      let earliestStartMinutes = newStartMinutes
-      for (const entry of entriesToMerge) {
-        const entryStart = timeToMinutes(entry.startTime)
-        if (entryStart < earliestStartMinutes) {
-          earliestStartMinutes = entryStart
-          effectiveStartTime = entry.startTime
-        }
+      // Continue from the earliest start among entries to merge
+      const earliestStart = Math.min(newStart, ...entriesToMerge.map(getEntryStart))
+      if (earliestStart < newStart) {
+        timestamp = earliestStart
+        timerDate = getLogicalDateString(new Date(earliestStart), dayStartHour)
+        effectiveStartTime = getZonedDateTime(earliestStart).time
       }
 
-      // Calculate the timestamp for the earliest start time
-      const [h, m] = effectiveStartTime.split(':').map(Number)
-      const startDate = new Date()
-      startDate.setHours(h, m, 0, 0)
-      timestamp = startDate.getTime()
-
       // Delete the entries that are being merged into the timer
-      setTimedEntries((prev) => prev.filter(e =>
-        !entriesToMerge.some(toRemove => toRemove.id === e.id)
+      setTimedEntries((prev) => prev.map(e =>
+        entriesToMerge.some(toRemove => toRemove.id === e.id) ? tombstone(e) : e
       ))
     }
 
     const newTimer: ActiveTimer = {
       id: generateId(),
       habitId,
-      date,
+      date: timerDate,
       startTime: effectiveStartTime,
       startTimestamp: timestamp,
+      timeZone: getDeviceTimeZone(),
+      mode,
+      updatedAt: new Date().toISOString(),
     }
     setActiveTimers((prev) => [...prev, newTimer])
     return newTimer
-  }, [activeTimers, timedEntries, timeToMinutes])
+  }, [activeTimers, timedEntries, dayStartHour, recordCommand])
+
+  // Log a finished countdown or Pomodoro work period as an entry (the timer stops after its last one)
+  // The entry id comes from the timer and cycle, so devices that both see the period end write the
+  // same record, and a logged period that was since deleted isn't logged again
+  // Not an undo step: it happens on its own rather than from something the user did
+  const completeTimerCycle = useCallback((timer: ActiveTimer, cycle: number) => {
+    if (!timer.mode) return
+    const startedAt = new Date(getCycleStart(timer, cycle))
+    const entry: TimedEntry = {
+      id: `${timer.id}-${cycle}`,
+      habitId: timer.habitId,
+      date: getLogicalDateString(startedAt, dayStartHour),
+      startTime: getZonedDateTime(startedAt).time,
+      duration: timer.mode.workMinutes,
+      timeZone: getDeviceTimeZone(),
+      updatedAt: new Date().toISOString(),
+    }
+
+    setTimedEntries((prev) => (
+      prev.some(e => e.id === entry.id) ? prev : insertTimedEntry(prev, entry, dayStartHour)
+    ))
+    if (cycle >= timer.mode.cycles - 1) {
+      setActiveTimers((prev) => prev.map(t => (t.id === timer.id && isLive(t) ? tombstone(t) : t)))
+    }
+  }, [dayStartHour])
 
   const stopTimer = useCallback((timerId: string) => {
     const timer = activeTimers.find(t => t.id === timerId)
-    setActiveTimers((prev) => prev.filter((t) => t.id !== timerId))
+    recordCommand('Stop timer')
+    setActiveTimers((prev) => prev.map((t) => (t.id === timerId ? tombstone(t) : t)))
     return timer
-  }, [activeTimers])
+  }, [activeTimers, recordCommand])
 
   const getActiveTimersForHabit = useCallback(
     (habitId: string) => {
@@ -564,21 +944,149 @@ export function useHabits(options: UseHabitsOptions = {}) {
     [activeTimers]
   )
 
-  // Delete all data (habits, completions, groups, timed entries, active timers)
+  // Import a full data set (e.g. from a backup file)
+  // 'replace' deletes everything current first; 'merge' keeps the most recently updated copy of each record
+  // Either way the result goes through the same normalization as loadAllData, as one undo step
+  const importData = useCallback((data: HabitData, mode: 'replace' | 'merge') => {
+    recordCommand('Import backup')
+    const now = new Date().toISOString()
+    const current = getAllData()
+
+    if (mode === 'replace') {
+      const stamp = <T extends { updatedAt?: string }>(records: T[] = []) => records.map((r) => touch(r, now))
+      applyData(mergeHabitData(
+        {
+          habits: tombstoneAll(current.habits, now),
+          completions: tombstoneAll(current.completions, now),
+          groups: tombstoneAll(current.groups, now),
+          timedEntries: tombstoneAll(current.timedEntries || [], now),
+          activeTimers: tombstoneAll(current.activeTimers || [], now),
+          dayNotes: tombstoneAll(current.dayNotes || [], now),
+        },
+        {
+          habits: stamp(data.habits),
+          completions: stamp(data.completions),
+          groups: stamp(data.groups),
+          timedEntries: stamp(data.timedEntries),
+          activeTimers: stamp(data.activeTimers),
+          dayNotes: stamp(data.dayNotes),
+        }
+      ))
+      return
+    }
+
+    applyData(mergeHabitData(current, data))
+  }, [getAllData, applyData, recordCommand])
+
+  // Add history from another tracker, matching habits by name (case-insensitive)
+  // New habits go in groupName; days already logged here are left as they are
+  const importHistory = useCallback((history: ImportedHistory, groupName: string) => {
+    recordCommand('Import history')
+    const now = new Date().toISOString()
+    const normalize = (name: string) => name.trim().toLowerCase()
+    const habitIdsByName = new Map(habits.map(h => [normalize(h.name), h.id]))
+
+    const newHabits: Habit[] = []
+    let newGroup: HabitGroup | null = null
+    for (const imported of history.habits) {
+      if (habitIdsByName.has(normalize(imported.name))) continue
+
+      if (!newGroup) {
+        newGroup = groups.find(g => normalize(g.name) === normalize(groupName))
+          ?? { id: generateId(), name: groupName, visible: true, updatedAt: now }
+      }
+      const habit: Habit = {
+        id: generateId(),
+        name: imported.name.trim(),
+        type: imported.type,
+        groupId: newGroup.id,
+        createdAt: now,
+        updatedAt: now,
+      }
+      newHabits.push(habit)
+      habitIdsByName.set(normalize(habit.name), habit.id)
+    }
+
+    const loggedKeys = new Set(completions.map(c => `${c.habitId}:${c.date}`))
+    const newCompletions: HabitCompletion[] = []
+    for (const imported of history.completions) {
+      const habitId = habitIdsByName.get(normalize(imported.habitName))
+      const key = `${habitId}:${imported.date}`
+      if (!habitId || imported.value <= 0 || loggedKeys.has(key)) continue
+      loggedKeys.add(key)
+      newCompletions.push({ habitId, date: imported.date, value: imported.value, updatedAt: now })
+    }
+
+    const group = newGroup
+    if (group && !groups.some(g => g.id === group.id)) {
+      setGroups((prev) => [...prev, group])
+    }
+    setHabits((prev) => [...prev, ...newHabits])
+    // Drop tombstones for the same days so the imported rows take their place
+    setCompletions((prev) => [
+      ...prev.filter(c => isLive(c) || !loggedKeys.has(`${c.habitId}:${c.date}`)),
+      ...newCompletions,
+    ])
+
+    return { habitsCreated: newHabits.length, completionsAdded: newCompletions.length }
+  }, [habits, groups, completions, recordCommand])
+
+  // Delete all data (habits, completions, groups, timed entries, active timers, day notes)
+  // Everything becomes a tombstone so the delete also reaches other devices
   const deleteAllData = useCallback(() => {
-    setHabits([])
-    setCompletions([])
-    setGroups([])
-    setTimedEntries([])
-    setActiveTimers([])
+    recordCommand('Delete all data')
+    const now = new Date().toISOString()
+    setHabits((prev) => tombstoneAll(prev, now))
+    setCompletions((prev) => tombstoneAll(prev, now))
+    setGroups((prev) => ensureUngroupedGroup(tombstoneAll(prev, now)))
+    setTimedEntries((prev) => tombstoneAll(prev, now))
+    setActiveTimers((prev) => tombstoneAll(prev, now))
+    setDayNotes((prev) => tombstoneAll(prev, now))
+  }, [recordCommand])
+
+  // Put the records an entry changed back to one side, as fresh writes so the change syncs
+  const applyHistoryEntry = useCallback((entry: HistoryEntry, side: 'before' | 'after') => {
+    const now = new Date().toISOString()
+    const { changes } = entry
+    setHabits((prev) => applyRecordChanges(prev, changes.habits, side, RECORD_KEYS.habits, now))
+    setCompletions((prev) => applyRecordChanges(prev, changes.completions, side, RECORD_KEYS.completions, now))
+    setGroups((prev) => applyRecordChanges(prev, changes.groups, side, RECORD_KEYS.groups, now))
+    setTimedEntries((prev) => applyRecordChanges(prev, changes.timedEntries, side, RECORD_KEYS.timedEntries, now))
+    setActiveTimers((prev) => applyRecordChanges(prev, changes.activeTimers, side, RECORD_KEYS.activeTimers, now))
+    setDayNotes((prev) => applyRecordChanges(prev, changes.dayNotes, side, RECORD_KEYS.dayNotes, now))
   }, [])
 
+  // Undo the latest command, returning its label (null when there's nothing to undo)
+  const undo = useCallback((): string | null => {
+    const entry = undoStackRef.current[undoStackRef.current.length - 1]
+    if (!entry) return null
+    undoStackRef.current = undoStackRef.current.slice(0, -1)
+    redoStackRef.current = [...redoStackRef.current, entry]
+    applyHistoryEntry(entry, 'before')
+    updateHistoryState()
+    return entry.label
+  }, [applyHistoryEntry, updateHistoryState])
+
+  // Redo the latest undone command, returning its label (null when there's nothing to redo)
+  const redo = useCallback((): string | null => {
+    const entry = redoStackRef.current[redoStackRef.current.length - 1]
+    if (!entry) return null
+    redoStackRef.current = redoStackRef.current.slice(0, -1)
+    undoStackRef.current = [...undoStackRef.current, entry]
+    applyHistoryEntry(entry, 'after')
+    updateHistoryState()
+    return entry.label
+  }, [applyHistoryEntry, updateHistoryState])
+
   return {
     habits,
+    activeHabits,
+    archivedHabits,
     completions,
     groups,
     timedEntries,
     activeTimers,
+    dayNotes,
     isLoaded,
     addGroup,
     updateGroup,
@@ -586,23 +1094,40 @@ export function useHabits(options: UseHabitsOptions = {}) {
     toggleGroupVisibility,
     addHabit,
     updateHabit,
+    archiveHabit,
+    restoreHabit,
     deleteHabit,
     setCompletion,
     toggleBinary,
+    adjustCounter,
+    getCompletionNote,
+    hasCompletion,
+    setCompletionNote,
     getCompletionValue,
+    getGoalProgress,
+    isGoalMet,
     getStreak,
     getVisibleHabits,
     loadAllData,
+    importData,
+    importHistory,
     getAllData,
     deleteAllData,
+    undo,
+    redo,
+    undoLabel: historyState.undoLabel,
+    redoLabel: historyState.redoLabel,
     addTimedEntry,
     updateTimedEntry,
     deleteTimedEntry,
     getTimedEntriesForDate,
     hasTimedEntryForDate,
     getCompletionsForDate,
+    getDayNote,
+    setDayNote,
     startTimer,
     stopTimer,
+    completeTimerCycle,
     getActiveTimersForHabit,
   }
 }
@@ -0,0 +1,84 @@
+import { useEffect, useRef } from 'react'
+import type { ViewMode } from '../components/Calendar'
+
+// Shown in the "?" overlay
+export const KEYBOARD_SHORTCUTS: { keys: string[]; description: string }[] = [
+  { keys: ['←', 'h'], description: 'Previous day / month / year' },
+  { keys: ['→', 'l'], description: 'Next day / month / year' },
+  { keys: ['t'], description: 'Go to today' },
+  { keys: ['d'], description: 'Day view' },
+  { keys: ['m'], description: 'Month view' },
+  { keys: ['w'], description: 'Work week view' },
+  { keys: ['y'], description: 'Year view' },
+  { keys: ['1', '…', '9'], description: 'Check off the Nth visible habit on the focused day' },
+  { keys: ['Ctrl', 'K'], description: 'Search' },
+  { keys: ['Ctrl', 'Z'], description: 'Undo' },
+  { keys: ['Ctrl', 'Shift', 'Z'], description: 'Redo' },
+  { keys: ['?'], description: 'Show these shortcuts' },
+]
+
+// Keys typed into a field belong to the field
+export function isTextInput(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null
+  if (!element) return false
+  return element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.tagName === 'SELECT' || element.isContentEditable
+}
+
+interface UseKeyboardShortcutsOptions {
+  onPrev: () => void
+  onNext: () => void
+  onToday: () => void
+  onViewMode: (mode: ViewMode) => void
+  onToggleHabit: (index: number) => void // 0-based
+  onShowHelp: () => void
+}
+
+/**
+ * Single-key shortcuts for navigating and logging (modifier combos are left to their own handlers)
+ * Nothing fires while a dialog is open, except number keys in dialogs marked data-habit-shortcuts (the day log)
+ */
+export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions) {
+  const optionsRef = useRef(options)
+
+  // Keep optionsRef up to date
+  useEffect(() => {
+    optionsRef.current = options
+  }, [options])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.repeat || isTextInput(e.target)) return
+      const handlers = optionsRef.current
+      const dialogs = Array.from(document.querySelectorAll('[aria-modal="true"]'))
+
+      if (/^[1-9]$/.test(e.key) && dialogs.every(dialog => dialog.hasAttribute('data-habit-shortcuts'))) {
+        e.preventDefault()
+        handlers.onToggleHabit(Number(e.key) - 1)
+        return
+      }
+      if (dialogs.length > 0) return
+
+      const actions: Record<string, () => void> = {
+        ArrowLeft: handlers.onPrev,
+        h: handlers.onPrev,
+        ArrowRight: handlers.onNext,
+        l: handlers.onNext,
+        t: handlers.onToday,
+        d: () => handlers.onViewMode('day'),
+        m: () => handlers.onViewMode('month'),
+        w: () => handlers.onViewMode('workweek'),
+        y: () => handlers.onViewMode('year'),
+        '?': handlers.onShowHelp,
+      }
+      const action = actions[e.key]
+
+      if (action) {
+        e.preventDefault()
+        action()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+}
@@ -0,0 +1,113 @@
+import { useEffect, useRef, useMemo } from 'react'
+import { getUpcomingReminders } from '../utils/reminders'
+import { registerServiceWorker } from '../utils/serviceWorker'
+import type { Habit } from '../types'
+
+const PERIODIC_SYNC_TAG = 'habit-reminders'
+const PERIODIC_SYNC_INTERVAL_MS = 15 * 60 * 1000
+
+// Periodic Background Sync isn't in the DOM typings yet
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+  periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> }
+}
+
+// Ask the service worker to show anything that's due
+function showDueReminders() {
+  navigator.serviceWorker?.ready.then((registration) => {
+    registration.active?.postMessage({ type: 'show-due-reminders' })
+  })
+}
+
+interface UseRemindersOptions {
+  habits: Habit[]
+  dayStartHour: number
+  isLoaded: boolean
+  isDone: (habitId: string, date: string) => boolean
+  onMarkDone: (habitId: string, date: string) => void // "Mark done" notification action
+}
+
+/**
+ * Keeps the service worker's reminder schedule in sync with habits and completions
+ * and handles the notification actions it sends back
+ */
+export function useReminders({ habits, dayStartHour, isLoaded, isDone, onMarkDone }: UseRemindersOptions) {
+  const onMarkDoneRef = useRef(onMarkDone)
+
+  // Keep onMarkDoneRef up to date
+  useEffect(() => {
+    onMarkDoneRef.current = onMarkDone
+  }, [onMarkDone])
+
+  const reminders = useMemo(() => {
+    if (!isLoaded) return []
+    return getUpcomingReminders(habits, isDone, dayStartHour)
+  }, [habits, isDone, dayStartHour, isLoaded])
+
+  // Register the service worker and listen for notification actions
+  useEffect(() => {
+    if (typeof window === 'undefined' || !('serviceWorker' in navigator)) return
+
+    registerServiceWorker().then(async (registration) => {
+      // Lets an installed app show reminders while closed (where supported)
+      try {
+        await (registration as PeriodicSyncRegistration | null)?.periodicSync?.register(PERIODIC_SYNC_TAG, {
+          minInterval: PERIODIC_SYNC_INTERVAL_MS,
+        })
+      } catch {
+        // Not installed or permission denied
+      }
+    })
+
+    const snoozeTimers: ReturnType<typeof setTimeout>[] = []
+    const handleMessage = (event: MessageEvent) => {
+      const message = event.data || {}
+      if (message.type === 'reminder-done') {
+        onMarkDoneRef.current(message.habitId, message.date)
+      } else if (message.type === 'reminder-snoozed') {
+        snoozeTimers.push(setTimeout(showDueReminders, Math.max(0, message.timestamp - Date.now())))
+      }
+    }
+    navigator.serviceWorker.addEventListener('message', handleMessage)
+
+    return () => {
+      navigator.serviceWorker.removeEventListener('message', handleMessage)
+      snoozeTimers.forEach(clearTimeout)
+    }
+  }, [])
+
+  // "Mark done" when the app was closed opens it with ?reminderDone=<habitId>&date=<date>
+  useEffect(() => {
+    if (!isLoaded) return
+    const params = new URLSearchParams(window.location.search)
+    const habitId = params.get('reminderDone')
+    const date = params.get('date')
+    if (!habitId || !date) return
+
+    onMarkDoneRef.current(habitId, date)
+    window.history.replaceState(null, '', window.location.pathname)
+  }, [isLoaded])
+
+  // Hand the schedule over, and time upcoming reminders while the page is open
+  // (the service worker ignores these if it already scheduled them with a trigger)
+  useEffect(() => {
+    if (!isLoaded) return
+    let cancelled = false
+    const timers: ReturnType<typeof setTimeout>[] = []
+
+    navigator.serviceWorker?.ready.then((registration) => {
+      if (cancelled) return
+      registration.active?.postMessage({ type: 'schedule-reminders', reminders })
+      const now = Date.now()
+      for (const reminder of reminders) {
+        if (reminder.timestamp > now) {
+          timers.push(setTimeout(showDueReminders, reminder.timestamp - now))
+        }
+      }
+    })
+
+    return () => {
+      cancelled = true
+      timers.forEach(clearTimeout)
+    }
+  }, [reminders, isLoaded])
+}
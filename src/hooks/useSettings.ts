@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { resolveLocale, type WeekStart } from '../utils/dates'
+
+const SETTINGS_STORAGE_KEY = 'habit-calendar-settings'
+
+// Display preferences, kept per device rather than synced with habit data
+export interface Settings {
+  weekStartsOn: WeekStart
+  locale: string // Key of DATE_LOCALES, or 'auto' for the browser's language
+  dayStartHour: number // 0-6: hour the day rolls over, so late-night logging counts for the day before
+}
+
+const DEFAULT_SETTINGS: Settings = {
+  weekStartsOn: 0,
+  locale: 'auto',
+  dayStartHour: 0,
+}
+
+function loadSettings(): Settings {
+  if (typeof window === 'undefined') return DEFAULT_SETTINGS
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY)
+    return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS
+  } catch {
+    return DEFAULT_SETTINGS
+  }
+}
+
+export function useSettings() {
+  const [settings, setSettings] = useState<Settings>(loadSettings)
+
+  // Persist settings
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings))
+  }, [settings])
+
+  const updateSettings = useCallback((updates: Partial<Settings>) => {
+    setSettings(current => ({ ...current, ...updates }))
+  }, [])
+
+  // date-fns locale for formatting
+  const locale = useMemo(() => resolveLocale(settings.locale), [settings.locale])
+
+  return {
+    settings,
+    weekStartsOn: settings.weekStartsOn,
+    dayStartHour: settings.dayStartHour,
+    locale,
+    updateSettings,
+  }
+}
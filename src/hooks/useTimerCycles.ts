@@ -0,0 +1,79 @@
+import { useEffect, useRef } from 'react'
+import { toast } from 'sonner'
+import { getCompletedCycles, getTimerPhase, showTimerNotification, type TimerPhase } from '../utils/timers'
+import type { ActiveTimer, Habit } from '../types'
+
+const TICK_MS = 1000
+const CUE_WINDOW_MS = 60 * 1000 // Periods that ended longer ago than this (tab asleep, app closed) are logged silently
+
+interface UseTimerCyclesOptions {
+  activeTimers: ActiveTimer[]
+  habits: Habit[]
+  isLoaded: boolean
+  onCycleComplete: (timer: ActiveTimer, cycle: number) => void
+  chime: () => void
+}
+
+// What a timer was last seen doing, so each period end is handled once
+interface SeenTimer {
+  completed: number
+  phase: string
+}
+
+function getCueMessage(timer: ActiveTimer, phase: TimerPhase): string {
+  if (phase.phase === 'done') return timer.mode?.type === 'pomodoro' ? 'Pomodoros finished' : 'Countdown finished'
+  return phase.phase === 'break' ? 'Break time' : 'Back to work'
+}
+
+/**
+ * Drives countdown and Pomodoro timers: logs each finished work period and
+ * cues the end of every period with the chime, a toast and a notification
+ * Every device does this from the synced timers, and logging a period twice writes the same entry
+ */
+export function useTimerCycles({ activeTimers, habits, isLoaded, onCycleComplete, chime }: UseTimerCyclesOptions) {
+  const seenRef = useRef(new Map<string, SeenTimer>())
+  const onCycleCompleteRef = useRef(onCycleComplete)
+  const chimeRef = useRef(chime)
+
+  // Keep callback refs up to date
+  useEffect(() => {
+    onCycleCompleteRef.current = onCycleComplete
+    chimeRef.current = chime
+  }, [onCycleComplete, chime])
+
+  useEffect(() => {
+    const timers = activeTimers.filter(t => t.mode)
+    if (!isLoaded || timers.length === 0) return
+
+    const tick = () => {
+      const now = Date.now()
+      for (const timer of timers) {
+        const phase = getTimerPhase(timer, now)
+        if (!phase) continue
+        const completed = getCompletedCycles(timer, now)
+        const phaseKey = `${phase.phase}-${phase.cycle}`
+        const seen = seenRef.current.get(timer.id)
+
+        for (let cycle = seen?.completed ?? 0; cycle < completed; cycle++) {
+          onCycleCompleteRef.current(timer, cycle)
+        }
+
+        // A timer seen for the first time (just started, or synced in) has nothing to cue yet
+        const changedAt = phase.phase === 'done' ? phase.phaseEnd : phase.phaseStart
+        if (seen && seen.phase !== phaseKey && now - changedAt < CUE_WINDOW_MS) {
+          const habitName = habits.find(h => h.id === timer.habitId)?.name ?? 'Timer'
+          const message = getCueMessage(timer, phase)
+          chimeRef.current()
+          toast(`${habitName}: ${message}`, { id: `timer-${timer.id}` })
+          showTimerNotification(message, habitName, `timer-${timer.id}`)
+        }
+
+        seenRef.current.set(timer.id, { completed, phase: phaseKey })
+      }
+    }
+
+    tick()
+    const interval = setInterval(tick, TICK_MS)
+    return () => clearInterval(interval)
+  }, [activeTimers, habits, isLoaded])
+}
@@ -8,6 +8,7 @@ interface DriveFile {
   id: string
   name: string
   modifiedTime: string
+  version: string // Increases on every change to the file
 }
 
 interface DriveFilesResponse {
@@ -25,6 +26,14 @@ export class AuthError extends Error {
   }
 }
 
+// Error class for saves rejected because the cloud file changed since it was loaded
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ConflictError'
+  }
+}
+
 // Wrapper for fetch with 401/403 retry
 async function fetchWithAuth(
   url: string,
@@ -62,7 +71,7 @@ async function fetchWithAuth(
 async function findFile(accessToken: string, onTokenRefresh?: TokenRefreshCallback): Promise<DriveFile | null> {
   const params = new URLSearchParams({
     spaces: 'appDataFolder',
-    fields: 'files(id, name, modifiedTime)',
+    fields: 'files(id, name, modifiedTime, version)',
     q: `name='${FILE_NAME}'`,
   })
 
@@ -101,7 +110,7 @@ async function createFile(accessToken: string, data: HabitData, onTokenRefresh?:
   )
 
   const response = await fetchWithAuth(
-    `${UPLOAD_API_BASE}/files?uploadType=multipart&fields=id,name,modifiedTime`,
+    `${UPLOAD_API_BASE}/files?uploadType=multipart&fields=id,name,modifiedTime,version`,
     accessToken,
     {
       method: 'POST',
@@ -117,23 +126,58 @@ async function createFile(accessToken: string, data: HabitData, onTokenRefresh?:
   return response.json()
 }
 
+/**
+ * Current version of a file, with the ETag that identifies that exact revision
+ */
+async function getFileRevision(
+  accessToken: string,
+  fileId: string,
+  onTokenRefresh?: TokenRefreshCallback
+): Promise<{ version: string; etag: string | null }> {
+  const response = await fetchWithAuth(
+    `${DRIVE_API_BASE}/files/${fileId}?fields=version`,
+    accessToken,
+    {},
+    onTokenRefresh
+  )
+
+  if (!response.ok) {
+    throw new Error(`Failed to read file version: ${response.statusText}`)
+  }
+
+  const { version } = await response.json()
+  return { version, etag: response.headers.get('ETag') }
+}
+
 /**
  * Update existing habits.json file
+ * With an etag, Drive only applies the update if the file is still at that revision
  */
-async function updateFile(accessToken: string, fileId: string, data: HabitData, onTokenRefresh?: TokenRefreshCallback): Promise<DriveFile> {
+async function updateFile(
+  accessToken: string,
+  fileId: string,
+  data: HabitData,
+  onTokenRefresh?: TokenRefreshCallback,
+  etag?: string | null
+): Promise<DriveFile> {
   const response = await fetchWithAuth(
-    `${UPLOAD_API_BASE}/files/${fileId}?uploadType=media&fields=id,name,modifiedTime`,
+    `${UPLOAD_API_BASE}/files/${fileId}?uploadType=media&fields=id,name,modifiedTime,version`,
     accessToken,
     {
       method: 'PATCH',
       headers: {
         'Content-Type': 'application/json',
+        ...(etag ? { 'If-Match': etag } : {}),
       },
       body: JSON.stringify(data),
     },
     onTokenRefresh
   )
 
+  if (response.status === 412) {
+    throw new ConflictError('Cloud data changed on another device')
+  }
+
   if (!response.ok) {
     throw new Error(`Failed to update file: ${response.statusText}`)
   }
@@ -161,24 +205,35 @@ async function readFile(accessToken: string, fileId: string, onTokenRefresh?: To
 
 /**
  * Save habit data to Google Drive
+ * When expectedVersion is given (null = no file yet), the save is rejected with a
+ * ConflictError if the file's current version differs, i.e. another device saved
+ * since we last loaded. The update itself is conditional on the revision that was
+ * checked, so a save from another device in between is rejected too
  */
 export async function saveToGDrive(
   accessToken: string,
   data: HabitData,
-  onTokenRefresh?: TokenRefreshCallback
-): Promise<{ success: boolean; modifiedTime: string }> {
+  onTokenRefresh?: TokenRefreshCallback,
+  expectedVersion?: string | null
+): Promise<{ success: boolean; modifiedTime: string; version: string }> {
   try {
     const existingFile = await findFile(accessToken, onTokenRefresh)
+    const revision = existingFile ? await getFileRevision(accessToken, existingFile.id, onTokenRefresh) : null
+
+    if (expectedVersion !== undefined && (revision?.version ?? null) !== expectedVersion) {
+      throw new ConflictError('Cloud data changed on another device')
+    }
 
     let file: DriveFile
     if (existingFile) {
-      file = await updateFile(accessToken, existingFile.id, data, onTokenRefresh)
+      file = await updateFile(accessToken, existingFile.id, data, onTokenRefresh, revision?.etag)
     } else {
       file = await createFile(accessToken, data, onTokenRefresh)
     }
 
-    return { success: true, modifiedTime: file.modifiedTime }
+    return { success: true, modifiedTime: file.modifiedTime, version: file.version }
   } catch (error) {
+    if (error instanceof ConflictError) throw error
     console.error('Failed to save to Google Drive:', error)
     throw error
   }
@@ -190,16 +245,16 @@ export async function saveToGDrive(
 export async function loadFromGDrive(
   accessToken: string,
   onTokenRefresh?: TokenRefreshCallback
-): Promise<{ data: HabitData | null; modifiedTime: string | null }> {
+): Promise<{ data: HabitData | null; modifiedTime: string | null; version: string | null }> {
   try {
     const file = await findFile(accessToken, onTokenRefresh)
 
     if (!file) {
-      return { data: null, modifiedTime: null }
+      return { data: null, modifiedTime: null, version: null }
     }
 
     const data = await readFile(accessToken, file.id, onTokenRefresh)
-    return { data, modifiedTime: file.modifiedTime }
+    return { data, modifiedTime: file.modifiedTime, version: file.version }
   } catch (error) {
     console.error('Failed to load from Google Drive:', error)
     throw error
@@ -1,41 +1,91 @@
-export interface HabitGroup {
+// Sync metadata carried by every synced record
+// Conflicts resolve to the latest updatedAt; deletes are kept as tombstones so they sync too
+export interface SyncMeta {
+  updatedAt?: string // ISO timestamp of the last change (optional for backward compatibility)
+  deleted?: boolean // Tombstone
+}
+
+export interface HabitGroup extends SyncMeta {
   id: string
   name: string
   visible: boolean
 }
 
-export interface Habit {
+// 'binary' habits are done/not done, 'counter' habits track a count per day
+export type HabitType = 'binary' | 'counter'
+
+// Target a habit must reach for a day or week to count as complete
+// 'count' sums completion values (taps / counter), 'minutes' sums timed entry durations
+export interface HabitGoal {
+  target: number
+  period: 'day' | 'week'
+  unit: 'count' | 'minutes'
+}
+
+// When a habit is expected - days it isn't expected never break a streak
+export type HabitSchedule =
+  | { type: 'weekdays'; days: number[] } // 0 = Sunday
+  | { type: 'interval'; every: number; startDate: string } // Every N days from startDate (YYYY-MM-DD)
+  | { type: 'timesPerWeek'; times: number } // Any days, X of them each week
+
+export interface Habit extends SyncMeta {
   id: string
   groupId?: string
   name: string
   color?: string // deprecated - colors are now dynamically assigned based on visible habits
   emoji?: string // shows emoji instead of colored dot
+  type?: HabitType // Optional for backward compatibility (defaults to 'binary')
+  unit?: string // Counter unit, e.g. "glasses" or "pages"
+  goal?: HabitGoal // Without a goal, any completion or timed entry marks the day done
+  schedule?: HabitSchedule // Without a schedule, the habit is expected every day
+  reminders?: string[] // HH:MM (24h, local time) notifications on scheduled days
+  archived?: boolean // Hidden from the calendar, day view and legend; history is kept
   createdAt: string
 }
 
-export interface HabitCompletion {
+export interface HabitCompletion extends SyncMeta {
   habitId: string
   date: string // YYYY-MM-DD format
   value: number // 1 for binary complete, count for counter
+  note?: string
 }
 
 // Timed entry for day view journaling
-// A "day" in day view runs from 4:00 AM to 6:00 AM next day
-export interface TimedEntry {
+// A "day" in day view runs 24 hours from the day start hour setting (midnight by default)
+export interface TimedEntry extends SyncMeta {
   id: string
   habitId: string
-  date: string // YYYY-MM-DD - the logical day (4am start)
-  startTime: string // HH:MM (24h format)
+  date: string // YYYY-MM-DD - the logical day (see getLogicalDate)
+  startTime: string // HH:MM (24h format), wall-clock time in timeZone
   duration: number // minutes
+  timeZone?: string // IANA zone it was logged in (missing on older entries: the device's zone)
+  note?: string
+}
+
+// Free-form journal text for a day (one per date)
+export interface DayNote extends SyncMeta {
+  date: string // YYYY-MM-DD
+  text: string
+}
+
+// Countdown or Pomodoro (alternating work and break periods) - timers without one count up
+// Every device works out the current period from startTimestamp, so nothing else needs syncing
+export interface TimerMode {
+  type: 'countdown' | 'pomodoro'
+  workMinutes: number // Countdown length, or each Pomodoro work period
+  breakMinutes: number // Pomodoro only
+  cycles: number // Work periods before the timer stops by itself (1 for a countdown)
 }
 
 // Active timer for running timers (synced to cloud)
-export interface ActiveTimer {
+export interface ActiveTimer extends SyncMeta {
   id: string
   habitId: string
   date: string // YYYY-MM-DD - the logical day when timer started
-  startTime: string // HH:MM (24h format)
-  startTimestamp: number // Unix timestamp in ms for elapsed calculation
+  startTime: string // HH:MM (24h format), wall-clock time in timeZone
+  startTimestamp: number // Unix timestamp in ms - the source of truth for when it started
+  timeZone?: string // IANA zone it was started in
+  mode?: TimerMode // Without one, the timer counts up until stopped
 }
 
 export interface HabitData {
@@ -44,6 +94,7 @@ export interface HabitData {
   groups: HabitGroup[]
   timedEntries?: TimedEntry[] // Optional for backward compatibility
   activeTimers?: ActiveTimer[] // Running timers (synced across devices)
+  dayNotes?: DayNote[] // Optional for backward compatibility
 }
 
 export interface WeekData {
@@ -0,0 +1,270 @@
+import {
+  format,
+  parseISO,
+  subDays,
+  addDays,
+  startOfWeek,
+  differenceInCalendarDays,
+  differenceInCalendarWeeks,
+  subWeeks,
+  getDay,
+} from 'date-fns'
+import { isScheduled, getStreakPeriod } from './schedule'
+import type { WeekStart } from './dates'
+import type { Habit, HabitCompletion, TimedEntry } from '../types'
+
+// Ranges offered in the analytics dialog (in days)
+export const ANALYTICS_RANGES = [7, 30, 90, 365] as const
+export type AnalyticsRange = typeof ANALYTICS_RANGES[number]
+
+// Returns true when a habit counts as done on a date (YYYY-MM-DD)
+export type IsCompleteFn = (habitId: string, date: string) => boolean
+
+export interface HabitStats {
+  habitId: string
+  period: 'day' | 'week' // Weekly goals and times-per-week schedules are measured in weeks
+  completedPeriods: number
+  trackedPeriods: number // Scheduled days (or weeks) in range since the habit started being tracked
+  completionRate: number // 0-1
+  longestStreak: number
+}
+
+export interface HeatmapDay {
+  date: string // YYYY-MM-DD
+  value: number // 0-1 share of the selected habits completed
+  inRange: boolean // False for padding days outside the last year
+}
+
+function toDateString(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+/**
+ * First date a habit was tracked: its creation date, or an earlier
+ * completion / timed entry (e.g. data logged before the habit was renamed)
+ */
+export function getFirstTrackedDate(
+  habit: Habit,
+  completions: HabitCompletion[],
+  timedEntries: TimedEntry[]
+): string {
+  let first = habit.createdAt ? habit.createdAt.slice(0, 10) : toDateString(new Date())
+  for (const c of completions) {
+    if (c.habitId === habit.id && c.value > 0 && c.date < first) first = c.date
+  }
+  for (const e of timedEntries) {
+    if (e.habitId === habit.id && e.date < first) first = e.date
+  }
+  return first
+}
+
+/**
+ * Completion stats for a habit over the last `rangeDays` days (including today)
+ * Days before the habit was first tracked, and days it isn't scheduled, are excluded from the rate
+ * Weekly goals and times-per-week schedules are measured in whole weeks instead of days
+ */
+export function getHabitStats(
+  habit: Habit,
+  firstTrackedDate: string,
+  rangeDays: number,
+  isComplete: IsCompleteFn,
+  weekStartsOn: WeekStart = 0,
+  today: Date = new Date()
+): HabitStats {
+  if (getStreakPeriod(habit) === 'week') {
+    const weeksSinceStart = differenceInCalendarWeeks(today, parseISO(firstTrackedDate), { weekStartsOn }) + 1
+    const trackedPeriods = Math.max(1, Math.min(Math.ceil(rangeDays / 7), weeksSinceStart))
+
+    let completedPeriods = 0
+    for (let i = 0; i < trackedPeriods; i++) {
+      if (isWeekComplete(habit, subWeeks(today, i), isComplete, weekStartsOn)) completedPeriods++
+    }
+
+    return {
+      habitId: habit.id,
+      period: 'week',
+      completedPeriods,
+      trackedPeriods,
+      completionRate: completedPeriods / trackedPeriods,
+      longestStreak: getLongestWeekStreak(habit, firstTrackedDate, isComplete, weekStartsOn, today),
+    }
+  }
+
+  const trackedSinceStart = differenceInCalendarDays(today, parseISO(firstTrackedDate)) + 1
+  const daysInRange = Math.max(1, Math.min(rangeDays, trackedSinceStart))
+
+  let trackedPeriods = 0
+  let completedPeriods = 0
+  for (let i = 0; i < daysInRange; i++) {
+    const date = subDays(today, i)
+    if (!isScheduled(habit.schedule, date)) continue
+    trackedPeriods++
+    if (isComplete(habit.id, toDateString(date))) completedPeriods++
+  }
+
+  return {
+    habitId: habit.id,
+    period: 'day',
+    completedPeriods,
+    trackedPeriods,
+    completionRate: trackedPeriods > 0 ? completedPeriods / trackedPeriods : 0,
+    longestStreak: getLongestStreak(habit, firstTrackedDate, isComplete, today),
+  }
+}
+
+// A week is complete when enough of its days are:
+// the times-per-week quota, or any single day for weekly goals
+function isWeekComplete(habit: Habit, date: Date, isComplete: IsCompleteFn, weekStartsOn: WeekStart): boolean {
+  const required = habit.schedule?.type === 'timesPerWeek' && habit.goal?.period !== 'week'
+    ? habit.schedule.times
+    : 1
+  const weekStart = startOfWeek(date, { weekStartsOn })
+  let completedDays = 0
+  for (let d = 0; d < 7; d++) {
+    if (isComplete(habit.id, toDateString(addDays(weekStart, d)))) completedDays++
+  }
+  return completedDays >= required
+}
+
+/**
+ * Longest run of completed days between the first tracked date and today
+ * Unscheduled days neither extend nor break a run
+ */
+export function getLongestStreak(
+  habit: Habit,
+  firstTrackedDate: string,
+  isComplete: IsCompleteFn,
+  today: Date = new Date()
+): number {
+  let longest = 0
+  let current = 0
+  let date = parseISO(firstTrackedDate)
+
+  while (differenceInCalendarDays(today, date) >= 0) {
+    if (isComplete(habit.id, toDateString(date))) {
+      current++
+      longest = Math.max(longest, current)
+    } else if (isScheduled(habit.schedule, date)) {
+      current = 0
+    }
+    date = addDays(date, 1)
+  }
+
+  return longest
+}
+
+/**
+ * Longest run of consecutive completed weeks between the first tracked date and today
+ */
+export function getLongestWeekStreak(
+  habit: Habit,
+  firstTrackedDate: string,
+  isComplete: IsCompleteFn,
+  weekStartsOn: WeekStart = 0,
+  today: Date = new Date()
+): number {
+  let longest = 0
+  let current = 0
+  let week = startOfWeek(parseISO(firstTrackedDate), { weekStartsOn })
+
+  while (differenceInCalendarDays(today, week) >= 0) {
+    if (isWeekComplete(habit, week, isComplete, weekStartsOn)) {
+      current++
+      longest = Math.max(longest, current)
+    } else {
+      current = 0
+    }
+    week = addDays(week, 7)
+  }
+
+  return longest
+}
+
+/**
+ * Number of completions per weekday over the last `rangeDays` days
+ * (index 0 = weekStartsOn, matching getWeekdayLabels)
+ */
+export function getWeekdayDistribution(
+  habitIds: string[],
+  rangeDays: number,
+  isComplete: IsCompleteFn,
+  weekStartsOn: WeekStart = 0,
+  today: Date = new Date()
+): number[] {
+  const counts = [0, 0, 0, 0, 0, 0, 0]
+  for (let i = 0; i < rangeDays; i++) {
+    const date = subDays(today, i)
+    const dateString = toDateString(date)
+    for (const habitId of habitIds) {
+      if (isComplete(habitId, dateString)) counts[(getDay(date) - weekStartsOn + 7) % 7]++
+    }
+  }
+  return counts
+}
+
+/**
+ * Heatmap of the last year as columns of weeks (starting on weekStartsOn)
+ * Each day's value is the share of `habitIds` completed on that day
+ */
+export function getYearHeatmap(
+  habitIds: string[],
+  isComplete: IsCompleteFn,
+  weekStartsOn: WeekStart = 0,
+  today: Date = new Date()
+): HeatmapDay[][] {
+  const rangeStart = subDays(today, 364)
+  const gridStart = startOfWeek(rangeStart, { weekStartsOn })
+  const weeks: HeatmapDay[][] = []
+
+  let date = gridStart
+  while (differenceInCalendarDays(today, date) >= 0) {
+    const week: HeatmapDay[] = []
+    for (let d = 0; d < 7; d++) {
+      const dateString = toDateString(date)
+      const inRange = differenceInCalendarDays(date, rangeStart) >= 0 && differenceInCalendarDays(today, date) >= 0
+      let completed = 0
+      if (inRange) {
+        for (const habitId of habitIds) {
+          if (isComplete(habitId, dateString)) completed++
+        }
+      }
+      week.push({
+        date: dateString,
+        value: inRange && habitIds.length > 0 ? completed / habitIds.length : 0,
+        inRange,
+      })
+      date = addDays(date, 1)
+    }
+    weeks.push(week)
+  }
+
+  return weeks
+}
+
+/**
+ * Contribution-style grid for one calendar year (Jan 1 - Dec 31), one column per week
+ * getValue returns 0-1 for a date (YYYY-MM-DD)
+ */
+export function getCalendarYearHeatmap(
+  year: number,
+  getValue: (date: string) => number,
+  weekStartsOn: WeekStart = 0
+): HeatmapDay[][] {
+  const rangeStart = new Date(year, 0, 1)
+  const rangeEnd = new Date(year, 11, 31)
+  const weeks: HeatmapDay[][] = []
+
+  let date = startOfWeek(rangeStart, { weekStartsOn })
+  while (differenceInCalendarDays(rangeEnd, date) >= 0) {
+    const week: HeatmapDay[] = []
+    for (let d = 0; d < 7; d++) {
+      const dateString = toDateString(date)
+      const inRange = date.getFullYear() === year
+      week.push({ date: dateString, value: inRange ? getValue(dateString) : 0, inRange })
+      date = addDays(date, 1)
+    }
+    weeks.push(week)
+  }
+
+  return weeks
+}
@@ -0,0 +1,123 @@
+import { format } from 'date-fns'
+import { isLive } from './sync'
+import type { HabitData } from '../types'
+
+// Bump when the backup format changes in a way older app versions can't read
+export const BACKUP_SCHEMA_VERSION = 1
+
+const BACKUP_APP_ID = 'minimal-habits'
+
+export interface HabitBackup {
+  app: typeof BACKUP_APP_ID
+  schemaVersion: number
+  exportedAt: string // ISO timestamp
+  data: HabitData
+}
+
+// Error class for files that aren't a readable backup
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BackupError'
+  }
+}
+
+/**
+ * Wrap the current data in a versioned backup (deleted records are left out)
+ */
+export function createBackup(data: HabitData): HabitBackup {
+  return {
+    app: BACKUP_APP_ID,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data: {
+      habits: data.habits.filter(isLive),
+      completions: data.completions.filter(isLive),
+      groups: data.groups.filter(isLive),
+      timedEntries: (data.timedEntries || []).filter(isLive),
+      activeTimers: (data.activeTimers || []).filter(isLive),
+      dayNotes: (data.dayNotes || []).filter(isLive),
+    },
+  }
+}
+
+export function getBackupFilename(date: Date = new Date()): string {
+  return `minimal-habits-${format(date, 'yyyy-MM-dd')}.json`
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TIME_PATTERN = /^\d{2}:\d{2}$/
+
+type RecordCheck = (record: Record<string, unknown>) => boolean
+
+const isText = (value: unknown) => typeof value === 'string' && value !== ''
+const isDate = (value: unknown) => typeof value === 'string' && DATE_PATTERN.test(value)
+const isTime = (value: unknown) => typeof value === 'string' && TIME_PATTERN.test(value)
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value)
+
+// Fields every record of a collection needs before the app can use it
+const RECORD_CHECKS: Record<keyof HabitData, RecordCheck> = {
+  habits: r => isText(r.id) && typeof r.name === 'string',
+  completions: r => isText(r.habitId) && isDate(r.date) && isNumber(r.value),
+  groups: r => isText(r.id) && typeof r.name === 'string',
+  timedEntries: r => isText(r.id) && isText(r.habitId) && isDate(r.date) && isTime(r.startTime) && isNumber(r.duration),
+  activeTimers: r => isText(r.id) && isText(r.habitId) && isDate(r.date) && isTime(r.startTime) && isNumber(r.startTimestamp),
+  dayNotes: r => isDate(r.date) && typeof r.text === 'string',
+}
+
+// Number of records in a collection that are missing required fields or have the wrong types
+function countInvalid(records: unknown[], check: RecordCheck): number {
+  return records.filter(r => !r || typeof r !== 'object' || !check(r as Record<string, unknown>)).length
+}
+
+/**
+ * Parse a backup file's text
+ * Also accepts a bare HabitData object (e.g. the habits.json synced to Google Drive)
+ * Files with records missing required fields are rejected rather than partly restored
+ */
+export function parseBackup(text: string): HabitData {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new BackupError('File is not valid JSON')
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    throw new BackupError('File is not a habit backup')
+  }
+
+  const record = parsed as Partial<HabitBackup> & Partial<HabitData>
+  let data: Partial<HabitData>
+
+  if (record.app === BACKUP_APP_ID) {
+    if (typeof record.schemaVersion !== 'number' || record.schemaVersion > BACKUP_SCHEMA_VERSION) {
+      throw new BackupError('Backup was made by a newer version of the app')
+    }
+    data = record.data ?? {}
+  } else {
+    data = record
+  }
+
+  if (!Array.isArray(data.habits) || !Array.isArray(data.completions)) {
+    throw new BackupError('File is not a habit backup')
+  }
+
+  const result: HabitData = {
+    habits: data.habits,
+    completions: data.completions,
+    groups: Array.isArray(data.groups) ? data.groups : [],
+    timedEntries: Array.isArray(data.timedEntries) ? data.timedEntries : [],
+    activeTimers: Array.isArray(data.activeTimers) ? data.activeTimers : [],
+    dayNotes: Array.isArray(data.dayNotes) ? data.dayNotes : [],
+  }
+
+  // Damaged records would break rendering and spread to other devices through sync
+  const invalid = (Object.keys(RECORD_CHECKS) as (keyof HabitData)[])
+    .reduce((total, key) => total + countInvalid(result[key] ?? [], RECORD_CHECKS[key]), 0)
+  if (invalid > 0) {
+    throw new BackupError(`Backup has ${invalid} damaged ${invalid === 1 ? 'record' : 'records'}`)
+  }
+
+  return result
+}
@@ -0,0 +1,124 @@
+import { format } from 'date-fns'
+import { isLive } from './sync'
+import type { Habit, HabitData, HabitGroup } from '../types'
+
+// Which rows go into a CSV export
+export interface CsvExportOptions {
+  startDate: string // YYYY-MM-DD, inclusive
+  endDate: string // YYYY-MM-DD, inclusive
+  habitIds: Set<string>
+}
+
+// Quote a field when it contains a delimiter, quote or line break
+// Text that a spreadsheet would run as a formula (=, +, -, @) is prefixed with an apostrophe
+function escapeField(value: string | number): string {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsv(header: string[], rows: (string | number)[][]): string {
+  return [header, ...rows].map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * Parse CSV text into rows of fields (RFC 4180 quoting, any line ending)
+ * Blank lines are dropped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  const endRow = () => {
+    row.push(field)
+    if (row.some(f => f.trim() !== '')) rows.push(row)
+    row = []
+    field = ''
+  }
+
+  // Strip a byte order mark left by spreadsheet apps
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+  endRow()
+
+  return rows
+}
+
+// "HH:MM" start plus minutes, wrapped past midnight
+function getEndTime(startTime: string, duration: number): string {
+  const [hours, minutes] = startTime.split(':').map(Number)
+  const end = (hours * 60 + minutes + duration) % (24 * 60)
+  return `${String(Math.floor(end / 60)).padStart(2, '0')}:${String(end % 60).padStart(2, '0')}`
+}
+
+function getLookups(data: HabitData) {
+  const habitsById = new Map<string, Habit>(data.habits.filter(isLive).map(h => [h.id, h]))
+  const groupsById = new Map<string, HabitGroup>(data.groups.filter(isLive).map(g => [g.id, g]))
+  const getGroupName = (habit: Habit) => (habit.groupId && groupsById.get(habit.groupId)?.name) || ''
+  return { habitsById, getGroupName }
+}
+
+function isIncluded(habitId: string, date: string, options: CsvExportOptions): boolean {
+  return options.habitIds.has(habitId) && date >= options.startDate && date <= options.endDate
+}
+
+/**
+ * One row per check-in: date, habit, group, value
+ */
+export function buildCompletionsCsv(data: HabitData, options: CsvExportOptions): string {
+  const { habitsById, getGroupName } = getLookups(data)
+
+  const rows = data.completions
+    .filter(c => isLive(c) && habitsById.has(c.habitId) && isIncluded(c.habitId, c.date, options))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(c => {
+      const habit = habitsById.get(c.habitId)!
+      return [c.date, habit.name, getGroupName(habit), c.value]
+    })
+
+  return toCsv(['date', 'habit', 'group', 'value'], rows)
+}
+
+/**
+ * One row per timed entry: date, habit, group, start, duration (minutes), end
+ */
+export function buildTimedEntriesCsv(data: HabitData, options: CsvExportOptions): string {
+  const { habitsById, getGroupName } = getLookups(data)
+
+  const rows = (data.timedEntries || [])
+    .filter(e => isLive(e) && habitsById.has(e.habitId) && isIncluded(e.habitId, e.date, options))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime))
+    .map(e => {
+      const habit = habitsById.get(e.habitId)!
+      return [e.date, habit.name, getGroupName(habit), e.startTime, e.duration, getEndTime(e.startTime, e.duration)]
+    })
+
+  return toCsv(['date', 'habit', 'group', 'start', 'duration_minutes', 'end'], rows)
+}
+
+export function getCsvFilename(kind: 'completions' | 'timed-entries', date: Date = new Date()): string {
+  return `minimal-habits-${kind}-${format(date, 'yyyy-MM-dd')}.csv`
+}
@@ -11,18 +11,202 @@ import {
   getYear,
   startOfMonth,
   differenceInWeeks,
+  addDays,
+  startOfDay,
+  subHours,
+  parseISO,
+  type Locale,
 } from 'date-fns'
+import { enUS, enGB, de, es, fr, it, ja, ko, nl, pl, ptBR, ru, sv, zhCN } from 'date-fns/locale'
 import type { WeekData } from '../types'
 
 const WEEKS_BACK = 52 // 1 year back
 const WEEKS_FORWARD = 52 // 1 year forward
 
+// First day of the week: Sunday, Monday or Saturday
+export type WeekStart = 0 | 1 | 6
+
+export const WEEK_START_OPTIONS: { value: WeekStart; label: string }[] = [
+  { value: 0, label: 'Sunday' },
+  { value: 1, label: 'Monday' },
+  { value: 6, label: 'Saturday' },
+]
+
+// Locales offered in settings, keyed by BCP 47 tag ('auto' follows the browser)
+export const DATE_LOCALES: Record<string, { label: string; locale: Locale }> = {
+  'en-US': { label: 'English (US)', locale: enUS },
+  'en-GB': { label: 'English (UK)', locale: enGB },
+  'de': { label: 'Deutsch', locale: de },
+  'es': { label: 'Español', locale: es },
+  'fr': { label: 'Français', locale: fr },
+  'it': { label: 'Italiano', locale: it },
+  'nl': { label: 'Nederlands', locale: nl },
+  'pl': { label: 'Polski', locale: pl },
+  'pt-BR': { label: 'Português (Brasil)', locale: ptBR },
+  'sv': { label: 'Svenska', locale: sv },
+  'ru': { label: 'Русский', locale: ru },
+  'ja': { label: '日本語', locale: ja },
+  'ko': { label: '한국어', locale: ko },
+  'zh-CN': { label: '中文 (简体)', locale: zhCN },
+}
+
+/**
+ * date-fns locale for a setting: an exact tag, else its language, else US English
+ * 'auto' uses the browser's language
+ */
+export function resolveLocale(code: string): Locale {
+  const tag = code === 'auto'
+    ? (typeof navigator === 'undefined' ? 'en-US' : navigator.language)
+    : code
+  const language = tag.split('-')[0]
+  return DATE_LOCALES[tag]?.locale
+    ?? Object.entries(DATE_LOCALES).find(([key]) => key.split('-')[0] === language)?.[1].locale
+    ?? enUS
+}
+
+/**
+ * Weekday names in display order, starting from weekStartsOn
+ */
+export function getWeekdayLabels(weekStartsOn: WeekStart, locale: Locale = enUS, pattern: 'EEE' | 'EEEEE' = 'EEE'): string[] {
+  const weekStart = startOfWeek(new Date(), { weekStartsOn })
+  return Array.from({ length: 7 }, (_, i) => format(addDays(weekStart, i), pattern, { locale }))
+}
+
 export function getDateString(date: Date): string {
   return format(date, 'yyyy-MM-dd')
 }
 
-export function generateWeekData(weekStart: Date, currentMonth: Date): WeekData {
-  const weekEnd = endOfWeek(weekStart, { weekStartsOn: 0 })
+/**
+ * The logical day a moment belongs to: until dayStartHour it still counts as the previous day
+ * (with a 4 AM rollover, 1:30 AM on the 6th is logged on the 5th)
+ */
+export function getLogicalDate(now: Date = new Date(), dayStartHour = 0): Date {
+  return startOfDay(subHours(now, dayStartHour))
+}
+
+export function getLogicalDateString(now: Date = new Date(), dayStartHour = 0): string {
+  return getDateString(getLogicalDate(now, dayStartHour))
+}
+
+/**
+ * Minutes from the start of the logical day to an HH:MM time within it
+ * Times before dayStartHour are the small hours of the next calendar day
+ */
+export function getMinutesIntoDay(time: string, dayStartHour = 0): number {
+  const [h, m] = time.split(':').map(Number)
+  return ((h - dayStartHour + 24) % 24) * 60 + m
+}
+
+/**
+ * The actual moment of an HH:MM time in a logical day (YYYY-MM-DD), read as wall-clock time in timeZone
+ * Times before dayStartHour fall on the next calendar day
+ */
+export function getLogicalDateTime(dateString: string, time: string, dayStartHour = 0, timeZone = getDeviceTimeZone()): Date {
+  const calendarDate = Number(time.split(':')[0]) < dayStartHour
+    ? getDateString(addDays(parseISO(dateString), 1))
+    : dateString
+  return new Date(zonedTimeToInstant(calendarDate, time, timeZone))
+}
+
+/**
+ * Split a span starting at an HH:MM time in a logical day into one piece per logical day it covers,
+ * so an entry from 23:00 to 02:00 becomes 23:00-24:00 and 00:00-02:00 on the next day
+ * Durations are real minutes, so a piece over a DST change keeps its true length
+ */
+export function splitIntoDays(
+  dateString: string,
+  time: string,
+  duration: number,
+  dayStartHour = 0,
+  timeZone = getDeviceTimeZone()
+): { date: string; startTime: string; duration: number }[] {
+  const dayStart = `${dayStartHour.toString().padStart(2, '0')}:00`
+  const pieces: { date: string; startTime: string; duration: number }[] = []
+  let date = dateString
+  let startTime = time
+  let remaining = duration
+
+  while (remaining > 0) {
+    const nextDate = getDateString(addDays(parseISO(date), 1))
+    const start = getLogicalDateTime(date, startTime, dayStartHour, timeZone).getTime()
+    const dayEnd = getLogicalDateTime(nextDate, dayStart, dayStartHour, timeZone).getTime()
+    const pieceDuration = Math.min(remaining, Math.round((dayEnd - start) / 60000))
+    if (pieceDuration <= 0) break
+
+    pieces.push({ date, startTime, duration: pieceDuration })
+    remaining -= pieceDuration
+    date = nextDate
+    startTime = dayStart
+  }
+
+  return pieces
+}
+
+// The device's IANA time zone, e.g. "Europe/Berlin"
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>()
+
+function getZonedFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+    zonedFormatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+/**
+ * Wall-clock date (YYYY-MM-DD) and time (HH:MM) of an instant in timeZone
+ */
+export function getZonedDateTime(instant: number | Date, timeZone = getDeviceTimeZone()): { date: string; time: string } {
+  const parts: Record<string, string> = {}
+  for (const { type, value } of getZonedFormatter(timeZone).formatToParts(instant)) {
+    parts[type] = value
+  }
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` }
+}
+
+// Minutes timeZone is ahead of UTC at an instant (e.g. 120 for CEST)
+function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const parts: Record<string, number> = {}
+  for (const { type, value } of getZonedFormatter(timeZone).formatToParts(instant)) {
+    parts[type] = Number(value)
+  }
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return Math.round((wallClock - Math.floor(instant / 1000) * 1000) / 60000)
+}
+
+/**
+ * UTC instant (ms) of a wall-clock date and HH:MM time in timeZone
+ * A time skipped by a DST jump resolves to the same offset as just before it;
+ * a repeated time resolves to its first occurrence
+ */
+export function zonedTimeToInstant(dateString: string, time: string, timeZone = getDeviceTimeZone()): number {
+  const [year, month, day] = dateString.split('-').map(Number)
+  const [hour, minute] = time.split(':').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute)
+
+  // The offset can differ either side of a DST change, so try both and keep one that round-trips
+  const before = wallClock - getTimeZoneOffset(wallClock - 24 * 60 * 60 * 1000, timeZone) * 60000
+  const after = wallClock - getTimeZoneOffset(wallClock + 24 * 60 * 60 * 1000, timeZone) * 60000
+  const candidates = [Math.min(before, after), Math.max(before, after)]
+  return candidates.find(instant => instant - wallClock === -getTimeZoneOffset(instant, timeZone) * 60000) ?? before
+}
+
+export function generateWeekData(weekStart: Date, currentMonth: Date, weekStartsOn: WeekStart = 0): WeekData {
+  const weekEnd = endOfWeek(weekStart, { weekStartsOn })
   const days = eachDayOfInterval({ start: weekStart, end: weekEnd })
 
   return {
@@ -39,26 +223,26 @@ export function generateWeekData(weekStart: Date, currentMonth: Date): WeekData
   }
 }
 
-export function generateAllWeeks(): WeekData[] {
+export function generateAllWeeks(weekStartsOn: WeekStart = 0): WeekData[] {
   const today = new Date()
   const currentMonth = startOfMonth(today)
-  const todayWeekStart = startOfWeek(today, { weekStartsOn: 0 })
+  const todayWeekStart = startOfWeek(today, { weekStartsOn })
 
   const weeks: WeekData[] = []
 
   // Generate weeks going back
   for (let i = WEEKS_BACK; i > 0; i--) {
     const weekStart = subWeeks(todayWeekStart, i)
-    weeks.push(generateWeekData(weekStart, currentMonth))
+    weeks.push(generateWeekData(weekStart, currentMonth, weekStartsOn))
   }
 
   // Current week
-  weeks.push(generateWeekData(todayWeekStart, currentMonth))
+  weeks.push(generateWeekData(todayWeekStart, currentMonth, weekStartsOn))
 
   // Generate weeks going forward
   for (let i = 1; i <= WEEKS_FORWARD; i++) {
     const weekStart = addWeeks(todayWeekStart, i)
-    weeks.push(generateWeekData(weekStart, currentMonth))
+    weeks.push(generateWeekData(weekStart, currentMonth, weekStartsOn))
   }
 
   return weeks
@@ -68,13 +252,20 @@ export function getTodayWeekIndex(): number {
   return WEEKS_BACK // The current week is at index WEEKS_BACK
 }
 
-export function getMonthYearString(date: Date): string {
-  return format(date, 'MMMM yyyy')
+// Month and year in the locale's standalone form ("LLLL" keeps e.g. Polish month names in the nominative)
+export function getMonthYearString(date: Date, locale: Locale = enUS): string {
+  return format(date, 'LLLL yyyy', { locale })
+}
+
+// Short day and month without the year in the locale's order ("Mar 5", "5. März")
+// date-fns has no year-less localized pattern, so this goes through Intl
+export function getDayMonthString(date: Date, locale: Locale = enUS): string {
+  return new Intl.DateTimeFormat(locale.code, { month: 'short', day: 'numeric' }).format(date)
 }
 
-export function getWeekIndexForDate(date: Date, weeks: WeekData[]): number {
+export function getWeekIndexForDate(date: Date, weeks: WeekData[], weekStartsOn: WeekStart = 0): number {
   if (weeks.length === 0) return 0
-  const targetWeekStart = startOfWeek(date, { weekStartsOn: 0 })
+  const targetWeekStart = startOfWeek(date, { weekStartsOn })
   const firstWeekStart = weeks[0].weekStart
   return differenceInWeeks(targetWeekStart, firstWeekStart)
 }
@@ -0,0 +1,162 @@
+import { format, isValid, parse } from 'date-fns'
+import type { HabitType } from '../types'
+
+// History read from another tracker, keyed by habit name (ids are assigned on import)
+export interface ImportedHabit {
+  name: string
+  type: HabitType
+}
+
+export interface ImportedCompletion {
+  habitName: string
+  date: string // YYYY-MM-DD
+  value: number
+}
+
+export interface ImportedHistory {
+  habits: ImportedHabit[]
+  completions: ImportedCompletion[]
+}
+
+// Which columns of a generic CSV hold what (column indexes, value is optional)
+export interface CsvColumnMapping {
+  date: number
+  habit: number
+  value: number | null // null = every row counts as one check-in
+}
+
+// Error class for files that can't be read as habit history
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportError'
+  }
+}
+
+// Loop Habit Tracker checkmark values for yes/no habits
+const LOOP_YES_MANUAL = 2
+const LOOP_SKIP = 3
+// Loop stores numeric habit values multiplied by 1000
+const LOOP_NUMERIC_SCALE = 1000
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'yyyy/MM/dd', 'M/d/yyyy', 'd.M.yyyy']
+
+/**
+ * Normalize a date cell to YYYY-MM-DD (accepts common formats and ISO timestamps)
+ */
+export function normalizeDate(value: string): string | null {
+  const text = value.trim()
+  if (!text) return null
+
+  for (const dateFormat of DATE_FORMATS) {
+    const date = parse(text, dateFormat, new Date())
+    if (isValid(date)) return format(date, 'yyyy-MM-dd')
+  }
+
+  // ISO timestamps like 2024-01-05T08:00:00Z
+  const match = /^(\d{4}-\d{2}-\d{2})T/.exec(text)
+  return match ? match[1] : null
+}
+
+// Value cell to a count: blank / yes / x mean one check-in, no / false mean none
+function parseValue(value: string): number {
+  const text = value.trim().toLowerCase()
+  if (text === '' || text === 'yes' || text === 'y' || text === 'true' || text === 'x') return 1
+  if (text === 'no' || text === 'n' || text === 'false') return 0
+  const number = Number(text)
+  return Number.isFinite(number) ? number : 0
+}
+
+// Habits that logged anything other than 1 become counters
+function collectHabits(completions: ImportedCompletion[]): ImportedHabit[] {
+  const types = new Map<string, HabitType>()
+  for (const c of completions) {
+    if (c.value !== 1) types.set(c.habitName, 'counter')
+    else if (!types.has(c.habitName)) types.set(c.habitName, 'binary')
+  }
+  return Array.from(types, ([name, type]) => ({ name, type }))
+}
+
+/**
+ * Read Loop Habit Tracker's Checkmarks.csv (a Date column followed by one column per habit)
+ */
+export function parseLoopCheckmarks(rows: string[][]): ImportedHistory {
+  const [header, ...body] = rows
+  if (!header || header[0]?.trim().toLowerCase() !== 'date' || header.length < 2) {
+    throw new ImportError('Expected Loop\'s Checkmarks.csv (first column "Date")')
+  }
+
+  const habits: ImportedHabit[] = []
+  const completions: ImportedCompletion[] = []
+
+  header.slice(1).forEach((rawName, index) => {
+    const name = rawName.trim()
+    if (!name) return // Loop writes a trailing comma
+    const column = index + 1
+    const values = body.map(row => Number(row[column]))
+    // Yes/no habits only ever hold -1..3, anything larger is a scaled numeric value
+    const isNumeric = values.some(v => v > LOOP_SKIP)
+
+    body.forEach((row, rowIndex) => {
+      const date = normalizeDate(row[0] ?? '')
+      const raw = values[rowIndex]
+      if (!date || !Number.isFinite(raw)) return
+
+      if (isNumeric) {
+        const value = Math.round((raw / LOOP_NUMERIC_SCALE) * 100) / 100
+        if (value > 0) completions.push({ habitName: name, date, value })
+      } else if (raw === LOOP_YES_MANUAL) {
+        completions.push({ habitName: name, date, value: 1 })
+      }
+    })
+
+    habits.push({ name, type: isNumeric ? 'counter' : 'binary' })
+  })
+
+  if (habits.length === 0) {
+    throw new ImportError('No habits found in file')
+  }
+
+  return { habits, completions }
+}
+
+/**
+ * Guess the column mapping for a generic CSV from its header names
+ */
+export function guessColumnMapping(header: string[]): CsvColumnMapping {
+  const find = (names: string[]) => header.findIndex(h => names.includes(h.trim().toLowerCase()))
+  const date = find(['date', 'day'])
+  const habit = find(['habit', 'name', 'habit name', 'activity'])
+  const value = find(['value', 'count', 'amount', 'quantity'])
+  return {
+    date: date >= 0 ? date : 0,
+    habit: habit >= 0 ? habit : Math.min(1, header.length - 1),
+    value: value >= 0 ? value : null,
+  }
+}
+
+/**
+ * Read a generic "date, habit, value" CSV using a column mapping (first row is the header)
+ * Rows on the same day for the same habit are added together
+ */
+export function parseMappedCsv(rows: string[][], mapping: CsvColumnMapping): ImportedHistory {
+  const totals = new Map<string, ImportedCompletion>()
+
+  for (const row of rows.slice(1)) {
+    const date = normalizeDate(row[mapping.date] ?? '')
+    const habitName = (row[mapping.habit] ?? '').trim()
+    const value = mapping.value === null ? 1 : parseValue(row[mapping.value] ?? '')
+    if (!date || !habitName || value <= 0) continue
+
+    const key = `${habitName}:${date}`
+    const existing = totals.get(key)
+    totals.set(key, { habitName, date, value: (existing?.value ?? 0) + value })
+  }
+
+  const completions = Array.from(totals.values())
+  if (completions.length === 0) {
+    throw new ImportError('No rows with a valid date and habit')
+  }
+
+  return { habits: collectHabits(completions), completions }
+}
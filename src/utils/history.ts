@@ -0,0 +1,92 @@
+import { isLive, tombstone, RECORD_KEYS } from './sync'
+import type { HabitData, SyncMeta } from '../types'
+
+export type HabitCollection = keyof typeof RECORD_KEYS
+type CollectionRecord<K extends HabitCollection> = NonNullable<HabitData[K]>[number]
+
+// A record before and after a command (null = it didn't exist)
+export interface RecordChange<T extends SyncMeta = SyncMeta> {
+  key: string
+  before: T | null
+  after: T | null
+}
+
+export type HistoryChanges = { [K in HabitCollection]: RecordChange<CollectionRecord<K>>[] }
+
+// One undoable command
+export interface HistoryEntry {
+  label: string
+  changes: HistoryChanges
+}
+
+export const HISTORY_COLLECTIONS = Object.keys(RECORD_KEYS) as HabitCollection[]
+
+function diffRecords<T extends SyncMeta>(before: T[], after: T[], getKey: (record: T) => string): RecordChange<T>[] {
+  const beforeByKey = new Map(before.map(r => [getKey(r), r]))
+  const changes: RecordChange<T>[] = []
+
+  for (const record of after) {
+    const key = getKey(record)
+    const previous = beforeByKey.get(key) ?? null
+    beforeByKey.delete(key)
+    if (previous !== record && JSON.stringify(previous) !== JSON.stringify(record)) {
+      changes.push({ key, before: previous, after: record })
+    }
+  }
+  // Records that disappeared entirely (normally deletes leave tombstones)
+  for (const [key, previous] of beforeByKey) {
+    changes.push({ key, before: previous, after: null })
+  }
+
+  return changes
+}
+
+/**
+ * Records a command changed, per collection
+ */
+export function diffHabitData(before: HabitData, after: HabitData): HistoryChanges {
+  return {
+    habits: diffRecords(before.habits, after.habits, RECORD_KEYS.habits),
+    completions: diffRecords(before.completions, after.completions, RECORD_KEYS.completions),
+    groups: diffRecords(before.groups, after.groups, RECORD_KEYS.groups),
+    timedEntries: diffRecords(before.timedEntries || [], after.timedEntries || [], RECORD_KEYS.timedEntries),
+    activeTimers: diffRecords(before.activeTimers || [], after.activeTimers || [], RECORD_KEYS.activeTimers),
+    dayNotes: diffRecords(before.dayNotes || [], after.dayNotes || [], RECORD_KEYS.dayNotes),
+  }
+}
+
+export function hasHistoryChanges(changes: HistoryChanges): boolean {
+  return HISTORY_COLLECTIONS.some(collection => changes[collection].length > 0)
+}
+
+/**
+ * Put the changed records back to one side of a command ('before' to undo, 'after' to redo)
+ * Restored records are stamped as new writes so the undo syncs like any other edit,
+ * and records that didn't exist on that side become tombstones
+ */
+export function applyRecordChanges<T extends SyncMeta>(
+  records: T[],
+  changes: RecordChange<T>[],
+  side: 'before' | 'after',
+  getKey: (record: T) => string,
+  updatedAt: string
+): T[] {
+  if (changes.length === 0) return records
+
+  const indexByKey = new Map(records.map((r, i) => [getKey(r), i]))
+  const result = [...records]
+
+  for (const change of changes) {
+    const target = change[side]
+    const index = indexByKey.get(change.key)
+    if (target) {
+      const restored = { ...target, updatedAt }
+      if (index === undefined) result.push(restored)
+      else result[index] = restored
+    } else if (index !== undefined && isLive(result[index])) {
+      result[index] = tombstone(result[index], updatedAt)
+    }
+  }
+
+  return result
+}
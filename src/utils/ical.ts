@@ -0,0 +1,320 @@
+import { format, addDays, addWeeks } from 'date-fns'
+import { isLive } from './sync'
+import { getLogicalDateTime } from './dates'
+import type { Habit, TimedEntry } from '../types'
+
+const PRODUCT_ID = '-//Minimal Habits//Timed Entries//EN'
+const UID_DOMAIN = 'minimal-habits'
+const MAX_LINE_OCTETS = 75
+
+// Escape TEXT values (RFC 5545 3.3.11)
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Fold content lines longer than 75 octets, without splitting a multi-byte character
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let currentOctets = 0
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length
+    // Continuation lines start with a space, which counts toward their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (currentOctets + octets > limit) {
+      parts.push(current)
+      current = ''
+      currentOctets = 0
+    }
+    current += char
+    currentOctets += octets
+  }
+  parts.push(current)
+
+  return parts.join('\r\n ')
+}
+
+// UTC date-time, e.g. 20240105T083000Z
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+// Start of an entry from its logical day and HH:MM start time, in the zone it was logged in
+// (times before dayStartHour are the small hours of the next calendar day)
+export function getEntryStart(entry: TimedEntry, dayStartHour = 0): Date {
+  return getLogicalDateTime(entry.date, entry.startTime, dayStartHour, entry.timeZone)
+}
+
+/**
+ * Build an iCalendar file with one VEVENT per timed entry
+ * Times are written in UTC so calendar apps place them correctly in any zone
+ */
+export function buildCalendar(entries: TimedEntry[], habits: Habit[], dayStartHour = 0, now: Date = new Date()): string {
+  const habitsById = new Map(habits.map(h => [h.id, h]))
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ]
+
+  for (const entry of entries) {
+    const habit = habitsById.get(entry.habitId)
+    if (!isLive(entry) || !habit) continue
+
+    const start = getEntryStart(entry, dayStartHour)
+    const end = new Date(start.getTime() + entry.duration * 60 * 1000)
+    const summary = habit.emoji ? `${habit.emoji} ${habit.name}` : habit.name
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${entry.id}@${UID_DOMAIN}`,
+      `DTSTAMP:${formatUtc(entry.updatedAt ? new Date(entry.updatedAt) : now)}`,
+      `DTSTART:${formatUtc(start)}`,
+      `DTEND:${formatUtc(end)}`,
+      `SUMMARY:${escapeText(summary)}`,
+      'TRANSP:TRANSPARENT', // Logged time shouldn't block availability
+      'END:VEVENT',
+    )
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+export function getCalendarFilename(label: string = format(new Date(), 'yyyy-MM-dd')): string {
+  return `minimal-habits-${label}.ics`
+}
+
+// A timed event read from an .ics file (all-day events are skipped)
+export interface CalendarEvent {
+  uid: string
+  summary: string
+  start: Date
+  end: Date
+}
+
+// Maps events whose title contains keyword onto a habit
+export interface CalendarImportRule {
+  keyword: string
+  habitId: string
+}
+
+// Error class for files that aren't a readable calendar
+export class CalendarParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CalendarParseError'
+  }
+}
+
+// Safety cap on occurrences generated from one recurring event (counted from rangeStart)
+const MAX_OCCURRENCES = 1000
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+interface ContentLine {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char))
+}
+
+// Unfold continuation lines and split each into name, parameters and value
+function readContentLines(text: string): ContentLine[] {
+  const unfolded = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '')
+  const lines: ContentLine[] = []
+
+  for (const line of unfolded.split('\n')) {
+    const colon = line.indexOf(':')
+    if (colon <= 0) continue
+    const [name, ...paramParts] = line.slice(0, colon).split(';')
+    const params: Record<string, string> = {}
+    for (const part of paramParts) {
+      const [key, value = ''] = part.split('=')
+      params[key.toUpperCase()] = value.replace(/^"|"$/g, '')
+    }
+    lines.push({ name: name.toUpperCase(), params, value: line.slice(colon + 1) })
+  }
+
+  return lines
+}
+
+// Milliseconds timeZone is ahead of UTC at the given instant
+function getZoneOffset(timeZone: string, instant: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant))
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value)
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - instant
+}
+
+// Parse a DATE-TIME value; null for all-day DATE values
+// Zoned times the browser doesn't know (e.g. Windows zone names) fall back to local time
+function parseDateTime(line: ContentLine): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(line.value.trim())
+  if (!match) return null
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match
+  const fields = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)] as const
+  if (utc) return new Date(Date.UTC(...fields))
+
+  const timeZone = line.params.TZID
+  if (timeZone) {
+    try {
+      const wallTime = Date.UTC(...fields)
+      // Second pass corrects for a DST change between the guess and the real instant
+      const guess = wallTime - getZoneOffset(timeZone, wallTime)
+      return new Date(wallTime - getZoneOffset(timeZone, guess))
+    } catch {
+      // Unknown zone
+    }
+  }
+  return new Date(...fields)
+}
+
+// ISO 8601 duration like PT1H30M or P1D to milliseconds
+function parseDuration(value: string): number {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim())
+  if (!match) return 0
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map(v => v ?? '0')
+  const total = ((Number(weeks) * 7 + Number(days)) * 24 * 60 + Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)
+  return (sign === '-' ? -1 : 1) * total * 1000
+}
+
+// Start times of a DAILY or WEEKLY recurrence between rangeStart and rangeEnd (other frequencies keep just the first)
+function expandRecurrence(start: Date, rrule: string, exdates: Set<number>, rangeStart: Date | null, rangeEnd: Date): Date[] {
+  const rule = Object.fromEntries(rrule.split(';').map(part => part.split('=') as [string, string]))
+  const interval = Math.max(1, Number(rule.INTERVAL) || 1)
+  const count = rule.COUNT ? Number(rule.COUNT) : Infinity
+  const until = rule.UNTIL ? parseDateTime({ name: 'UNTIL', params: {}, value: rule.UNTIL.length === 8 ? `${rule.UNTIL}T235959` : rule.UNTIL }) : null
+  const last = until && until < rangeEnd ? until : rangeEnd
+
+  if (rule.FREQ !== 'DAILY' && rule.FREQ !== 'WEEKLY') return [start]
+
+  // WEEKLY with BYDAY steps through each listed weekday of every interval-th week
+  const byDay = rule.FREQ === 'WEEKLY' && rule.BYDAY
+    ? rule.BYDAY.split(',').map((code: string) => WEEKDAY_CODES.indexOf(code.slice(-2))).filter((d: number) => d >= 0)
+    : null
+
+  const starts: Date[] = []
+  let emitted = 0
+  for (let step = 0; emitted < count && starts.length < MAX_OCCURRENCES; step++) {
+    const periodStart = rule.FREQ === 'DAILY' ? addDays(start, step * interval) : addWeeks(start, step * interval)
+    if (periodStart > last) break
+
+    const candidates = byDay
+      ? byDay.map((day: number) => addDays(periodStart, day - periodStart.getDay())).sort((a: Date, b: Date) => a.getTime() - b.getTime())
+      : [periodStart]
+
+    for (const candidate of candidates) {
+      if (candidate < start || candidate > last || emitted >= count) continue
+      emitted++ // Excluded dates and ones before the range still use up COUNT
+      if (rangeStart && candidate < rangeStart) continue
+      if (!exdates.has(candidate.getTime())) starts.push(candidate)
+    }
+  }
+
+  return starts
+}
+
+/**
+ * Read the timed events from an .ics file, expanding simple recurrences up to rangeEnd
+ * With a rangeStart, occurrences of recurring events before it are left out
+ */
+export function parseCalendar(text: string, rangeEnd: Date = new Date(), rangeStart: Date | null = null): CalendarEvent[] {
+  const lines = readContentLines(text)
+  if (!lines.some(l => l.name === 'BEGIN' && l.value.trim().toUpperCase() === 'VCALENDAR')) {
+    throw new CalendarParseError('File is not an iCalendar (.ics) file')
+  }
+
+  const events: CalendarEvent[] = []
+  let current: ContentLine[] | null = null
+  let depth = 0 // Skip nested components like VALARM
+
+  for (const line of lines) {
+    const value = line.value.trim().toUpperCase()
+    if (line.name === 'BEGIN' && value === 'VEVENT') {
+      current = []
+      depth = 0
+    } else if (current && line.name === 'BEGIN') {
+      depth++
+    } else if (current && line.name === 'END' && value !== 'VEVENT') {
+      depth--
+    } else if (current && line.name === 'END') {
+      events.push(...readEvent(current, rangeStart, rangeEnd))
+      current = null
+    } else if (current && depth === 0) {
+      current.push(line)
+    }
+  }
+
+  return events
+}
+
+function readEvent(lines: ContentLine[], rangeStart: Date | null, rangeEnd: Date): CalendarEvent[] {
+  const get = (name: string) => lines.find(l => l.name === name)
+  const startLine = get('DTSTART')
+  const start = startLine && parseDateTime(startLine)
+  // Cancelled and all-day events don't become timed entries
+  if (!start || get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED') return []
+
+  const endLine = get('DTEND')
+  const end = endLine && parseDateTime(endLine)
+  const durationMs = end ? end.getTime() - start.getTime() : parseDuration(get('DURATION')?.value ?? '')
+  if (durationMs <= 0) return []
+
+  const uid = get('UID')?.value.trim() ?? ''
+  const summary = unescapeText(get('SUMMARY')?.value ?? '').trim()
+  const rrule = get('RRULE')?.value.trim()
+
+  const exdates = new Set<number>()
+  for (const line of lines.filter(l => l.name === 'EXDATE')) {
+    for (const value of line.value.split(',')) {
+      const date = parseDateTime({ ...line, value })
+      if (date) exdates.add(date.getTime())
+    }
+  }
+
+  const starts = rrule ? expandRecurrence(start, rrule, exdates, rangeStart, rangeEnd) : [start]
+  return starts.map(occurrence => ({
+    uid,
+    summary,
+    start: occurrence,
+    end: new Date(occurrence.getTime() + durationMs),
+  }))
+}
+
+// Event titles exported by buildCalendar start with the habit emoji
+function stripEmoji(text: string): string {
+  return text.replace(/^[\p{Extended_Pictographic}\u200d\ufe0f\s]+/u, '').trim()
+}
+
+/**
+ * Habit an event belongs to: an exact title match first, then the first keyword rule found in the title
+ */
+export function matchEventToHabit(summary: string, habits: Habit[], rules: CalendarImportRule[]): Habit | null {
+  const title = stripEmoji(summary).toLowerCase()
+  const byName = habits.find(h => h.name.trim().toLowerCase() === title)
+  if (byName) return byName
+
+  const rule = rules.find(r => r.keyword.trim() && title.includes(r.keyword.trim().toLowerCase()))
+  return (rule && habits.find(h => h.id === rule.habitId)) || null
+}
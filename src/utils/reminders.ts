@@ -0,0 +1,67 @@
+import { addDays, format } from 'date-fns'
+import { isScheduled } from './schedule'
+import { getLogicalDate, getLogicalDateTime } from './dates'
+import type { Habit } from '../types'
+
+// A reminder notification handed to the service worker (public/sw.js)
+export interface ScheduledReminder {
+  id: string // Also the notification tag, so the same reminder never shows twice
+  habitId: string
+  date: string // YYYY-MM-DD logical day the reminder is for
+  timestamp: number // When to show it (ms)
+  title: string
+  body: string
+  canMarkDone: boolean // False for minute goals, which only timed entries can meet
+}
+
+// How far ahead reminders are handed to the service worker
+const REMINDER_DAYS_AHEAD = 2
+
+/**
+ * Today's and tomorrow's reminders for habits that are scheduled and not yet done
+ * Days are logical days, so with a rollover hour a reminder after midnight belongs to the day before
+ * Reminders earlier today are included; the service worker decides whether they're too late to show
+ */
+export function getUpcomingReminders(
+  habits: Habit[],
+  isDone: (habitId: string, date: string) => boolean,
+  dayStartHour = 0,
+  now: Date = new Date()
+): ScheduledReminder[] {
+  const reminders: ScheduledReminder[] = []
+  const today = getLogicalDate(now, dayStartHour)
+
+  for (let offset = 0; offset < REMINDER_DAYS_AHEAD; offset++) {
+    const day = addDays(today, offset)
+    const date = format(day, 'yyyy-MM-dd')
+
+    for (const habit of habits) {
+      if (!habit.reminders?.length || !isScheduled(habit.schedule, day) || isDone(habit.id, date)) continue
+
+      for (const time of habit.reminders) {
+        const at = getLogicalDateTime(date, time, dayStartHour)
+        reminders.push({
+          id: `${habit.id}:${date}:${time}`,
+          habitId: habit.id,
+          date,
+          timestamp: at.getTime(),
+          title: habit.emoji ? `${habit.emoji} ${habit.name}` : habit.name,
+          body: habit.goal?.unit === 'minutes'
+            ? 'Time to log some time'
+            : habit.type === 'counter' ? 'Time to log today\'s count' : 'Time to check it off',
+          canMarkDone: habit.goal?.unit !== 'minutes',
+        })
+      }
+    }
+  }
+
+  return reminders.sort((a, b) => a.timestamp - b.timestamp)
+}
+
+export function requestNotificationPermission(): void {
+  if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => {
+      // Ignore - reminders just won't show
+    })
+  }
+}
@@ -0,0 +1,34 @@
+import { differenceInCalendarDays, getDay, parseISO } from 'date-fns'
+import type { Habit, HabitSchedule } from '../types'
+
+export const WEEKDAY_INITIALS = ['S', 'M', 'T', 'W', 'T', 'F', 'S']
+
+/**
+ * Whether a habit is expected on a date
+ * Habits without a schedule are expected daily, and 'timesPerWeek' habits
+ * can be done on any day, so every day is a candidate
+ */
+export function isScheduled(schedule: HabitSchedule | undefined, date: Date): boolean {
+  if (!schedule) return true
+
+  switch (schedule.type) {
+    case 'weekdays':
+      return schedule.days.includes(getDay(date))
+    case 'interval': {
+      const days = differenceInCalendarDays(date, parseISO(schedule.startDate))
+      const every = Math.max(1, schedule.every)
+      return days >= 0 && days % every === 0
+    }
+    case 'timesPerWeek':
+      return true
+  }
+}
+
+/**
+ * Streaks for weekly goals and times-per-week schedules are counted in weeks
+ */
+export function getStreakPeriod(habit: Habit): 'day' | 'week' {
+  if (habit.goal?.period === 'week') return 'week'
+  if (habit.schedule?.type === 'timesPerWeek') return 'week'
+  return 'day'
+}
@@ -0,0 +1,189 @@
+import { format, isValid, parse, subDays } from 'date-fns'
+import type { DayNote, Habit, HabitCompletion, HabitGroup, TimedEntry } from '../types'
+
+// A note that matched a search
+export interface NoteSearchResult {
+  id: string
+  kind: 'day' | 'completion' | 'entry'
+  date: string // YYYY-MM-DD
+  habitId?: string // Not set for day notes
+  text: string
+}
+
+// A command palette result: where to jump when it's picked
+export interface SearchResult {
+  id: string
+  kind: 'date' | 'habit' | 'group' | 'note'
+  title: string
+  subtitle?: string
+  date: string // YYYY-MM-DD to show
+  viewMode: 'day' | 'month'
+  habitId?: string // Habit results, so the view can make sure it's shown
+}
+
+export interface SearchSources {
+  habits: Habit[]
+  groups: HabitGroup[]
+  completions: HabitCompletion[]
+  timedEntries: TimedEntry[]
+  dayNotes: DayNote[]
+}
+
+const MAX_RESULTS = 100
+
+// Date formats accepted in the palette, most specific first
+const DAY_FORMATS = ['yyyy-MM-dd', 'M/d/yyyy', 'MMM d yyyy', 'MMMM d yyyy', 'MMM d, yyyy', 'MMMM d, yyyy', 'MMM d', 'MMMM d']
+const MONTH_FORMATS = ['yyyy-MM', 'MMM yyyy', 'MMMM yyyy', 'MMM', 'MMMM']
+
+function toDateString(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+function getWords(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean)
+}
+
+function matchesWords(text: string, words: string[]): boolean {
+  const haystack = text.toLowerCase()
+  return words.every(word => haystack.includes(word))
+}
+
+/**
+ * Read a query as a date ("2024-03-05", "mar 5", "today") or a month ("march 2024", "2024-03")
+ * Formats without a year use the current one
+ */
+export function parseDateQuery(query: string, now: Date = new Date()): SearchResult | null {
+  const text = query.trim().toLowerCase()
+  if (!text) return null
+
+  if (text === 'today' || text === 'yesterday') {
+    const date = text === 'today' ? now : subDays(now, 1)
+    return { id: `date-${text}`, kind: 'date', title: format(date, 'EEEE, MMMM d, yyyy'), date: toDateString(date), viewMode: 'day' }
+  }
+
+  for (const dateFormat of DAY_FORMATS) {
+    const date = parse(text, dateFormat, now)
+    if (isValid(date)) {
+      return { id: 'date-day', kind: 'date', title: format(date, 'EEEE, MMMM d, yyyy'), date: toDateString(date), viewMode: 'day' }
+    }
+  }
+  for (const dateFormat of MONTH_FORMATS) {
+    const date = parse(text, dateFormat, now)
+    if (isValid(date)) {
+      return { id: 'date-month', kind: 'date', title: format(date, 'MMMM yyyy'), date: toDateString(date), viewMode: 'month' }
+    }
+  }
+  return null
+}
+
+/**
+ * Find notes containing every word of the query (case-insensitive), newest first
+ * A habit's name also counts as part of its check-in and entry notes, so "run tired" finds
+ * a note saying "tired" on a Running entry
+ */
+export function searchNotes(
+  { habits, completions, timedEntries, dayNotes }: Pick<SearchSources, 'habits' | 'completions' | 'timedEntries' | 'dayNotes'>,
+  query: string
+): NoteSearchResult[] {
+  const words = getWords(query)
+  if (words.length === 0) return []
+
+  const habitNames = new Map(habits.map(h => [h.id, h.name]))
+  const matches = (text: string, habitId?: string) =>
+    matchesWords(`${habitId ? habitNames.get(habitId) ?? '' : ''} ${text}`, words)
+
+  const results: NoteSearchResult[] = []
+  for (const note of dayNotes) {
+    if (note.text && matches(note.text)) {
+      results.push({ id: `day-${note.date}`, kind: 'day', date: note.date, text: note.text })
+    }
+  }
+  for (const completion of completions) {
+    if (completion.note && matches(completion.note, completion.habitId)) {
+      results.push({
+        id: `completion-${completion.habitId}-${completion.date}`,
+        kind: 'completion',
+        date: completion.date,
+        habitId: completion.habitId,
+        text: completion.note,
+      })
+    }
+  }
+  for (const entry of timedEntries) {
+    if (entry.note && matches(entry.note, entry.habitId)) {
+      results.push({ id: `entry-${entry.id}`, kind: 'entry', date: entry.date, habitId: entry.habitId, text: entry.note })
+    }
+  }
+
+  return results.sort((a, b) => b.date.localeCompare(a.date)).slice(0, MAX_RESULTS)
+}
+
+/**
+ * Everything the command palette can jump to: a typed date, then habits, groups and notes
+ * Habits and groups open the month of their most recent activity (or today's when there is none)
+ */
+export function searchAll(sources: SearchSources, query: string, now: Date = new Date()): SearchResult[] {
+  const words = getWords(query)
+  if (words.length === 0) return []
+
+  const today = toDateString(now)
+  const habitById = new Map(sources.habits.map(h => [h.id, h]))
+
+  // Most recent day each habit was logged
+  const lastDateByHabit = new Map<string, string>()
+  const noteActivity = (habitId: string, date: string) => {
+    if (date > (lastDateByHabit.get(habitId) ?? '')) lastDateByHabit.set(habitId, date)
+  }
+  sources.completions.forEach(c => c.value > 0 && noteActivity(c.habitId, c.date))
+  sources.timedEntries.forEach(e => noteActivity(e.habitId, e.date))
+
+  const results: SearchResult[] = []
+
+  const dateResult = parseDateQuery(query, now)
+  if (dateResult) results.push(dateResult)
+
+  for (const habit of sources.habits) {
+    if (!matchesWords(habit.name, words)) continue
+    const lastDate = lastDateByHabit.get(habit.id)
+    results.push({
+      id: `habit-${habit.id}`,
+      kind: 'habit',
+      habitId: habit.id,
+      title: habit.emoji ? `${habit.emoji} ${habit.name}` : habit.name,
+      subtitle: [habit.archived ? 'Archived' : null, lastDate ? `Last logged ${lastDate}` : 'Not logged yet'].filter(Boolean).join(' · '),
+      date: lastDate ?? today,
+      viewMode: 'month',
+    })
+  }
+
+  for (const group of sources.groups) {
+    if (!matchesWords(group.name, words)) continue
+    const groupHabits = sources.habits.filter(h => h.groupId === group.id)
+    const lastDate = groupHabits.reduce<string | undefined>((latest, h) => {
+      const date = lastDateByHabit.get(h.id)
+      return date && (!latest || date > latest) ? date : latest
+    }, undefined)
+    results.push({
+      id: `group-${group.id}`,
+      kind: 'group',
+      title: group.name,
+      subtitle: `Group · ${groupHabits.length} ${groupHabits.length === 1 ? 'habit' : 'habits'}`,
+      date: lastDate ?? today,
+      viewMode: 'month',
+    })
+  }
+
+  for (const note of searchNotes(sources, query)) {
+    const habit = note.habitId ? habitById.get(note.habitId) : undefined
+    results.push({
+      id: `note-${note.id}`,
+      kind: 'note',
+      title: note.text,
+      subtitle: `${note.date} · ${note.kind === 'day' ? 'Day note' : habit?.name ?? 'Deleted habit'}`,
+      date: note.date,
+      viewMode: 'day',
+    })
+  }
+
+  return results.slice(0, MAX_RESULTS)
+}
@@ -0,0 +1,20 @@
+// Registered once per page load; shared by offline caching and reminders
+let registrationPromise: Promise<ServiceWorkerRegistration | null> | null = null
+
+/**
+ * Register public/sw.js (null when service workers aren't available)
+ * In development the worker skips the app-shell cache so code changes aren't served stale
+ */
+export function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (typeof window === 'undefined' || !('serviceWorker' in navigator)) {
+    return Promise.resolve(null)
+  }
+  if (!registrationPromise) {
+    const url = process.env.NODE_ENV === 'production' ? '/sw.js' : '/sw.js?cache=off'
+    registrationPromise = navigator.serviceWorker.register(url).catch((error) => {
+      console.error('Failed to register service worker:', error)
+      return null
+    })
+  }
+  return registrationPromise
+}
@@ -0,0 +1,87 @@
+import { subDays } from 'date-fns'
+import type { ActiveTimer, DayNote, Habit, HabitCompletion, HabitData, HabitGroup, SyncMeta, TimedEntry } from '../types'
+
+// Tombstones older than this are dropped (a device offline for longer could resurrect a delete)
+export const TOMBSTONE_TTL_DAYS = 90
+
+export function isLive<T extends SyncMeta>(record: T): boolean {
+  return !record.deleted
+}
+
+/**
+ * Stamp a changed record so it wins the next merge
+ */
+export function touch<T extends SyncMeta>(record: T, updatedAt: string = new Date().toISOString()): T {
+  return { ...record, updatedAt }
+}
+
+/**
+ * Mark a record as deleted, keeping it around so the delete syncs to other devices
+ */
+export function tombstone<T extends SyncMeta>(record: T, updatedAt: string = new Date().toISOString()): T {
+  return { ...record, deleted: true, updatedAt }
+}
+
+/**
+ * Merge two copies of a record list, keeping the most recently updated version of each key
+ * Ties (including legacy records without updatedAt) go to `preferred`
+ */
+export function mergeRecords<T extends SyncMeta>(
+  preferred: T[],
+  other: T[],
+  getKey: (record: T) => string
+): T[] {
+  const merged = new Map<string, T>()
+  for (const record of preferred) {
+    merged.set(getKey(record), record)
+  }
+  for (const record of other) {
+    const key = getKey(record)
+    const existing = merged.get(key)
+    if (!existing || (record.updatedAt ?? '') > (existing.updatedAt ?? '')) {
+      merged.set(key, record)
+    }
+  }
+  return Array.from(merged.values())
+}
+
+/**
+ * Drop tombstones older than TOMBSTONE_TTL_DAYS
+ */
+export function pruneTombstones<T extends SyncMeta>(records: T[], now: Date = new Date()): T[] {
+  const cutoff = subDays(now, TOMBSTONE_TTL_DAYS).toISOString()
+  return records.filter(r => !r.deleted || (r.updatedAt ?? '') >= cutoff)
+}
+
+/**
+ * Tombstone every live record
+ */
+export function tombstoneAll<T extends SyncMeta>(records: T[], updatedAt: string = new Date().toISOString()): T[] {
+  return records.map(r => (isLive(r) ? tombstone(r, updatedAt) : r))
+}
+
+// Identity of a record within each HabitData collection
+export const RECORD_KEYS = {
+  habits: (h: Habit) => h.id,
+  completions: (c: HabitCompletion) => `${c.habitId}-${c.date}`,
+  groups: (g: HabitGroup) => g.id,
+  timedEntries: (e: TimedEntry) => e.id,
+  activeTimers: (t: ActiveTimer) => t.id,
+  dayNotes: (n: DayNote) => n.date,
+}
+
+/**
+ * Merge two copies of the full data set record by record (see mergeRecords)
+ * Ties go to `incoming`. Active timers and overlapping timed entries are
+ * normalized afterwards by useHabits
+ */
+export function mergeHabitData(base: HabitData, incoming: HabitData): HabitData {
+  return {
+    habits: mergeRecords(incoming.habits, base.habits, RECORD_KEYS.habits),
+    completions: mergeRecords(incoming.completions, base.completions, RECORD_KEYS.completions),
+    groups: mergeRecords(incoming.groups, base.groups, RECORD_KEYS.groups),
+    timedEntries: mergeRecords(incoming.timedEntries || [], base.timedEntries || [], RECORD_KEYS.timedEntries),
+    activeTimers: mergeRecords(incoming.activeTimers || [], base.activeTimers || [], RECORD_KEYS.activeTimers),
+    dayNotes: mergeRecords(incoming.dayNotes || [], base.dayNotes || [], RECORD_KEYS.dayNotes),
+  }
+}
@@ -0,0 +1,67 @@
+import type { ActiveTimer, TimerMode } from '../types'
+
+const MINUTE_MS = 60 * 1000
+
+// Defaults offered when starting a countdown or Pomodoro
+export const DEFAULT_TIMER_MODES: Record<TimerMode['type'], TimerMode> = {
+  countdown: { type: 'countdown', workMinutes: 30, breakMinutes: 0, cycles: 1 },
+  pomodoro: { type: 'pomodoro', workMinutes: 25, breakMinutes: 5, cycles: 4 },
+}
+
+// Where a countdown or Pomodoro timer is at a moment
+export interface TimerPhase {
+  phase: 'work' | 'break' | 'done' // 'done' once the last work period has run out (there's no break after it)
+  cycle: number // 0-based work period, at most mode.cycles - 1
+  phaseStart: number // ms
+  phaseEnd: number // ms
+}
+
+// Start of a cycle's work period
+export function getCycleStart(timer: ActiveTimer, cycle: number): number {
+  const mode = timer.mode
+  if (!mode) return timer.startTimestamp
+  return timer.startTimestamp + cycle * (mode.workMinutes + mode.breakMinutes) * MINUTE_MS
+}
+
+/**
+ * Current period of a countdown or Pomodoro timer (null for timers that count up)
+ */
+export function getTimerPhase(timer: ActiveTimer, now: number = Date.now()): TimerPhase | null {
+  const mode = timer.mode
+  if (!mode) return null
+
+  const workMs = mode.workMinutes * MINUTE_MS
+  const cycleMs = workMs + mode.breakMinutes * MINUTE_MS
+  const lastCycle = Math.max(1, mode.cycles) - 1
+  const elapsed = Math.max(0, now - timer.startTimestamp)
+  const cycle = Math.min(Math.floor(elapsed / cycleMs), lastCycle)
+  const cycleStart = getCycleStart(timer, cycle)
+
+  if (elapsed - cycle * cycleMs < workMs) {
+    return { phase: 'work', cycle, phaseStart: cycleStart, phaseEnd: cycleStart + workMs }
+  }
+  if (cycle === lastCycle) {
+    return { phase: 'done', cycle, phaseStart: cycleStart, phaseEnd: cycleStart + workMs }
+  }
+  return { phase: 'break', cycle, phaseStart: cycleStart + workMs, phaseEnd: cycleStart + cycleMs }
+}
+
+/**
+ * Number of work periods that have finished by now (never more than mode.cycles)
+ */
+export function getCompletedCycles(timer: ActiveTimer, now: number = Date.now()): number {
+  const phase = getTimerPhase(timer, now)
+  if (!phase) return 0
+  if (phase.phase === 'work') return phase.cycle
+  return phase.cycle + 1
+}
+
+// Show a system notification through the service worker (used when a period ends)
+export function showTimerNotification(title: string, body: string, tag: string): void {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return
+  navigator.serviceWorker?.ready
+    .then(registration => registration.showNotification(title, { body, tag, icon: '/pwa-192x192.svg' }))
+    .catch(() => {
+      // Notifications just won't show
+    })
+}